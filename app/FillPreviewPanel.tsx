@@ -0,0 +1,73 @@
+"use client";
+
+/**
+ * Executed but unproven fill or sweep: the taker's vault delta, the output
+ * notes, and where they differ from the predicted notes. Shown next to the
+ * "Prove & Submit" button.
+ */
+
+import { formatAssets, type FillOutputDiff } from "@/lib/pswap";
+import type { TransactionPreview } from "@/lib/transaction";
+
+export default function FillPreviewPanel({
+  tx,
+  diff,
+}: {
+  tx: TransactionPreview;
+  diff: FillOutputDiff;
+}) {
+  const cell = { padding: "2px 8px 2px 0", verticalAlign: "top" as const };
+  return (
+    <div style={{ marginTop: "16px" }}>
+      <div style={{ color: diff.ok ? "#22c55e" : "#ef4444" }}>
+        {diff.ok
+          ? "Outputs match the prediction"
+          : "Outputs differ from the prediction"}{" "}
+        (executed in {tx.timings.execute}ms, not proven)
+      </div>
+      <div style={{ marginTop: "8px", color: "#9ca3af" }}>Taker vault delta</div>
+      {tx.vaultDelta.map((change) => (
+        <div key={change.faucetId}>
+          {change.amount > BigInt(0) ? "+" : ""}
+          {change.amount.toString()} of {change.faucetId}
+        </div>
+      ))}
+      <div style={{ marginTop: "8px", color: "#9ca3af" }}>Output notes</div>
+      {tx.outputNotes.map((note) => (
+        <div key={note.noteId}>
+          {note.noteId} · {note.noteType} · tag {note.tag} ·{" "}
+          {formatAssets(note.assets)}
+          <div style={{ color: "#6b7280" }}>
+            recipient {note.recipientDigest ?? "unknown"}
+          </div>
+        </div>
+      ))}
+      {diff.notes.map((note) => (
+        <div key={note.expectedNoteId} style={{ marginTop: "8px" }}>
+          <div style={{ color: note.ok ? "#22c55e" : "#ef4444" }}>
+            Predicted {note.role}: {note.expectedNoteId}
+            {!note.actual && " — NOT CREATED"}
+          </div>
+          <table style={{ borderCollapse: "collapse" }}>
+            <tbody>
+              {note.checks
+                .filter((check) => !check.ok)
+                .map((check) => (
+                  <tr key={check.field} style={{ color: "#ef4444" }}>
+                    <td style={cell}>{check.field}</td>
+                    <td style={cell}>expected {check.expected}</td>
+                    <td style={cell}>got {check.actual}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+      {diff.unexpected.map((note) => (
+        <div key={note.noteId} style={{ color: "#eab308" }}>
+          Unexpected output: {note.noteId}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+/**
+ * Network picker. Each network keeps its own local store, swapped in when the
+ * shared client for the new network is created.
+ */
+
+import {
+  getNetworkConfig,
+  isMidenNetwork,
+  NETWORKS,
+} from "@/lib/network";
+import { useWebClient } from "@/lib/webClient";
+
+export default function NetworkSelect() {
+  const { network, selectNetwork, syncHeight, syncError, ordersError } =
+    useWebClient();
+
+  // Selection lives in localStorage, known only after mount
+  if (!network) return null;
+
+  return (
+    <div style={{ marginTop: "16px" }}>
+      <label>
+        Network:{" "}
+        <select
+          value={network}
+          onChange={(e) => {
+            if (isMidenNetwork(e.target.value)) selectNetwork(e.target.value);
+          }}
+          style={{ fontFamily: "monospace" }}
+        >
+          {Object.values(NETWORKS).map((config) => (
+            <option key={config.id} value={config.id}>
+              {config.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <span style={{ marginLeft: "8px", color: "#6b7280" }}>
+        {getNetworkConfig(network).rpcUrl}
+        {syncHeight !== null && ` · block ${syncHeight}`}
+      </span>
+      {syncError !== null && (
+        <span style={{ marginLeft: "8px", color: "#ef4444" }}>
+          · sync failed: {`${syncError}`}
+        </span>
+      )}
+      {ordersError !== null && (
+        <span style={{ marginLeft: "8px", color: "#eab308" }}>
+          · saved orders stale: {`${ordersError}`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+/**
+ * Startup self-check: warns on every page when the loaded SDK's P2ID script
+ * is not the one the PSWAP script pays back through. Order creation refuses
+ * to run in that case.
+ */
+
+import { useEffect, useState } from "react";
+import { checkP2idScriptRoot, type P2idRootCheck } from "@/lib/pswap";
+
+export default function P2idRootBanner() {
+  const [check, setCheck] = useState<P2idRootCheck | null>(null);
+
+  useEffect(() => {
+    checkP2idScriptRoot().then(setCheck, (error) =>
+      console.error("P2ID script root check failed:", error),
+    );
+  }, []);
+
+  if (!check || check.ok) return null;
+
+  return (
+    <div
+      style={{
+        padding: "12px 24px",
+        backgroundColor: "#7f1d1d",
+        color: "#fff",
+        fontFamily: "monospace",
+        fontSize: "0.875rem",
+      }}
+    >
+      <strong>Incompatible SDK:</strong> its P2ID script root is {check.actual},
+      but the PSWAP script was written against {check.expected}. Paybacks
+      would not be consumable as expected, so creating orders is disabled
+      until <code>P2ID_SCRIPT_ROOT</code> in lib/masm/pswap.ts is reviewed
+      and updated.
+    </div>
+  );
+}
@@ -0,0 +1,587 @@
+"use client";
+
+/**
+ * Order Book Page
+ *
+ * Aggregates public PSWAP orders for a faucet pair into bids and asks. The
+ * swap tags of both directions are registered with the client so sync picks
+ * up other makers' notes. A sweep is executed first as a preview and only
+ * proven and submitted once the taker confirms.
+ */
+
+import { useCallback, useState } from "react";
+import {
+  buildFillReceipt,
+  buildSweepRequest,
+  DEFAULT_SLIPPAGE_BPS,
+  describeFillDiff,
+  describeTransactionError,
+  diffFillOutputs,
+  discoverPairOrders,
+  formatFillReceipt,
+  loadOrderBook,
+  minTokensOutFor,
+  planSweep,
+  type FillOutputDiff,
+  type OrderBook,
+  type OrderBookEntry,
+  type SweepParams,
+  type SweepPlan,
+} from "@/lib/pswap";
+import {
+  commitTransaction,
+  describeTransactionEvent,
+  previewTransaction,
+  type TransactionPreview,
+} from "@/lib/transaction";
+import { useWebClient } from "@/lib/webClient";
+import FillPreviewPanel from "../FillPreviewPanel";
+
+type BookPhase = "idle" | "loading" | "sweeping" | "done" | "error";
+
+interface BookState {
+  logs: string[];
+  phase: BookPhase;
+  baseFaucetId: string;
+  quoteFaucetId: string;
+  book: OrderBook | null;
+  /** Sweep form */
+  takerId: string;
+  sweepSide: SweepParams["side"];
+  targetAmount: string;
+  priceLimit: string;
+  /** Tolerated payout shortfall per order, in basis points */
+  slippageBps: string;
+  /** Executed but unproven sweep awaiting confirmation */
+  sweepPreview: SweepPreview | null;
+}
+
+interface SweepPreview {
+  takerId: string;
+  plan: SweepPlan;
+  tx: TransactionPreview;
+  diff: FillOutputDiff;
+}
+
+const SIDE_COLORS: Record<OrderBookEntry["side"], string> = {
+  bid: "#22c55e",
+  ask: "#ef4444",
+};
+
+function OrderBookRows({ entries }: { entries: OrderBookEntry[] }) {
+  const cell = { padding: "4px 8px", textAlign: "right" as const };
+  return (
+    <>
+      {entries.map((entry) => (
+        <tr key={entry.noteId} title={entry.noteId}>
+          <td style={{ ...cell, color: SIDE_COLORS[entry.side] }}>
+            {entry.price.toFixed(6)}
+          </td>
+          <td style={cell}>{entry.size.toString()}</td>
+          <td style={cell}>{entry.total.toString()}</td>
+          <td style={cell}>{entry.depth.toString()}</td>
+          <td style={{ ...cell, color: "#6b7280" }}>
+            {entry.noteId.slice(0, 12)}…
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+export default function OrderBookPage() {
+  const [state, setState] = useState<BookState>({
+    logs: [],
+    phase: "idle",
+    baseFaucetId: "",
+    quoteFaucetId: "",
+    book: null,
+    takerId: "",
+    sweepSide: "buy",
+    targetAmount: "",
+    priceLimit: "",
+    slippageBps: DEFAULT_SLIPPAGE_BPS.toString(),
+    sweepPreview: null,
+  });
+
+  const { withClient } = useWebClient();
+
+  const log = useCallback((message: string) => {
+    console.log(message);
+    setState((prev) => ({
+      ...prev,
+      logs: [
+        ...prev.logs,
+        `[${new Date().toISOString().slice(11, 19)}] ${message}`,
+      ],
+    }));
+  }, []);
+
+  const loadBook = useCallback(
+    async (baseFaucetId: string, quoteFaucetId: string) => {
+      setState((prev) => ({ ...prev, phase: "loading" }));
+      try {
+        const book = await withClient((client) =>
+          loadOrderBook(client, baseFaucetId, quoteFaucetId),
+        );
+        log(
+          `Block ${book.syncHeight}: ${book.asks.length} ask(s), ${book.bids.length} bid(s) (tags ${book.tags.join(", ")})`,
+        );
+        for (const { noteId, error } of book.malformed) {
+          log(`  Skipped malformed PSWAP note ${noteId}: ${error}`);
+        }
+        setState((prev) => ({ ...prev, phase: "done", book }));
+      } catch (error) {
+        log(`${error}`);
+        console.error("Order book error:", error);
+        setState((prev) => ({ ...prev, phase: "error" }));
+      }
+    },
+    [log, withClient],
+  );
+
+  /**
+   * Plan a fill of the best orders up to the target and execute it as one
+   * transaction, without proving it yet
+   */
+  const previewSweep = useCallback(
+    async (takerId: string, params: SweepParams, slippageBps: number) => {
+      setState((prev) => ({ ...prev, phase: "sweeping", sweepPreview: null }));
+      try {
+        const sweepPreview = await withClient(async (client) => {
+          const { orders, syncHeight } = await discoverPairOrders(
+            client,
+            params.baseFaucetId,
+            params.quoteFaucetId,
+          );
+          const plan = await planSweep(
+            orders,
+            params,
+            syncHeight,
+            takerId,
+          );
+
+          log("");
+          log(
+            `Sweep ${params.side} ${params.targetAmount} at limit ${params.priceLimit}: ${plan.legs.length} order(s)`,
+          );
+          for (const leg of plan.legs) {
+            const minTokensOut = minTokensOutFor(leg.prediction, slippageBps);
+            log(
+              `  ${leg.entry.noteId.slice(0, 12)}… @ ${leg.entry.price.toFixed(6)}: pay ${leg.prediction.fillAmount}, receive ${leg.prediction.takerReceives}${minTokensOut === null ? "" : ` (min ${minTokensOut})`}`,
+            );
+          }
+          if (plan.legs.length === 0) {
+            throw new Error("no orders within the price limit");
+          }
+          log(
+            `  Total: pay ${plan.totalPaid}, receive ${plan.totalReceived}, avg price ${plan.averagePrice?.toFixed(6)}`,
+          );
+          if (plan.unfilled > BigInt(0)) {
+            log(`  Unfilled: ${plan.unfilled} (book too thin within the limit)`);
+          }
+
+          const request = await buildSweepRequest(plan, { slippageBps });
+          const tx = await previewTransaction(client, takerId, request, {
+            label: "sweep",
+            onEvent: (event) => log(describeTransactionEvent(event)),
+          });
+          const diff = diffFillOutputs(
+            plan.legs.map((leg) => leg.prediction),
+            tx.outputNotes,
+          );
+          for (const line of describeFillDiff(diff)) log(`  ${line}`);
+          return { takerId, plan, tx, diff };
+        });
+        log(
+          sweepPreview.diff.ok
+            ? "  Outputs match the prediction; confirm to prove and submit"
+            : "  Outputs differ from the prediction; see the preview panel",
+        );
+        setState((prev) => ({ ...prev, phase: "done", sweepPreview }));
+      } catch (error) {
+        log("Sweep failed:");
+        for (const line of describeTransactionError(error, {
+          accountId: takerId,
+        })) {
+          log(`  ${line}`);
+        }
+        console.error("Sweep error:", error);
+        setState((prev) => ({ ...prev, phase: "error" }));
+      }
+    },
+    [log, withClient],
+  );
+
+  /**
+   * Prove and submit the previewed sweep
+   */
+  const confirmSweep = useCallback(
+    async (sweepPreview: SweepPreview) => {
+      setState((prev) => ({ ...prev, phase: "sweeping" }));
+      try {
+        const tx = await withClient((client) =>
+          commitTransaction(client, sweepPreview.tx, {
+            onEvent: (event) => log(describeTransactionEvent(event)),
+          }),
+        );
+        log(`  Sweep submitted: ${tx.transactionId}`);
+        const receipt = buildFillReceipt(
+          sweepPreview.plan.legs.map((leg) => leg.prediction),
+          tx,
+        );
+        for (const line of formatFillReceipt(receipt)) log(`  ${line}`);
+        setState((prev) => ({ ...prev, phase: "done", sweepPreview: null }));
+      } catch (error) {
+        log("Sweep failed:");
+        for (const line of describeTransactionError(error, {
+          accountId: sweepPreview.takerId,
+        })) {
+          log(`  ${line}`);
+        }
+        console.error("Sweep error:", error);
+        setState((prev) => ({ ...prev, phase: "error" }));
+      }
+    },
+    [log, withClient],
+  );
+
+  const isLoading = state.phase === "loading" || state.phase === "sweeping";
+  const canLoad = !isLoading && !!state.baseFaucetId && !!state.quoteFaucetId;
+  const canSweep =
+    canLoad &&
+    !!state.takerId &&
+    /^\d+$/.test(state.targetAmount) &&
+    /^\d+$/.test(state.slippageBps) &&
+    Number(state.priceLimit) > 0;
+  const book = state.book;
+  const sweepPreview = state.sweepPreview;
+  const spread =
+    book && book.asks.length > 0 && book.bids.length > 0
+      ? book.asks[0].price - book.bids[0].price
+      : null;
+
+  const inputStyle = {
+    width: "100%",
+    marginBottom: "8px",
+    padding: "8px",
+    backgroundColor: "#111827",
+    color: "#fff",
+    border: "1px solid #374151",
+    borderRadius: "4px",
+    fontFamily: "monospace",
+    fontSize: "0.875rem",
+  };
+  const actionStyle = {
+    padding: "8px 16px",
+    backgroundColor: isLoading ? "#374151" : "#3b82f6",
+    color: "#fff",
+    border: "none",
+    borderRadius: "4px",
+    cursor: isLoading ? "not-allowed" : "pointer",
+    fontFamily: "monospace",
+  };
+  const headerCell = {
+    padding: "4px 8px",
+    textAlign: "right" as const,
+    color: "#9ca3af",
+    fontWeight: "normal",
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        backgroundColor: "#000",
+        color: "#fff",
+        padding: "24px",
+        fontFamily: "monospace",
+      }}
+    >
+      <div style={{ maxWidth: "896px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "1.5rem",
+            fontWeight: "bold",
+            marginBottom: "16px",
+          }}
+        >
+          Order Book
+        </h1>
+        <p style={{ color: "#9ca3af", marginBottom: "24px" }}>
+          Public PSWAP orders for a faucet pair. Prices are quote units per
+          base unit; size and depth are in base units.
+        </p>
+
+        <input
+          value={state.baseFaucetId}
+          onChange={(e) =>
+            setState((prev) => ({
+              ...prev,
+              baseFaucetId: e.target.value.trim(),
+            }))
+          }
+          placeholder="Base faucet ID (0x...)"
+          spellCheck={false}
+          style={inputStyle}
+        />
+        <input
+          value={state.quoteFaucetId}
+          onChange={(e) =>
+            setState((prev) => ({
+              ...prev,
+              quoteFaucetId: e.target.value.trim(),
+            }))
+          }
+          placeholder="Quote faucet ID (0x...)"
+          spellCheck={false}
+          style={inputStyle}
+        />
+
+        <div
+          style={{
+            display: "flex",
+            gap: "16px",
+            margin: "8px 0 24px",
+            alignItems: "center",
+          }}
+        >
+          <button
+            onClick={() => loadBook(state.baseFaucetId, state.quoteFaucetId)}
+            disabled={!canLoad}
+            style={{
+              padding: "8px 16px",
+              backgroundColor: canLoad ? "#3b82f6" : "#374151",
+              color: "#fff",
+              border: "none",
+              borderRadius: "4px",
+              cursor: canLoad ? "pointer" : "not-allowed",
+              fontFamily: "monospace",
+            }}
+          >
+            {state.phase === "loading"
+              ? "Syncing..."
+              : book
+                ? "Refresh"
+                : "Load Order Book"}
+          </button>
+          {spread !== null && (
+            <span style={{ color: "#6b7280" }}>
+              Spread: {spread.toFixed(6)}
+            </span>
+          )}
+        </div>
+
+        {book && (
+          <div
+            style={{
+              marginBottom: "24px",
+              padding: "16px",
+              backgroundColor: "#111827",
+              borderRadius: "8px",
+              fontSize: "0.875rem",
+            }}
+          >
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th style={headerCell}>Price</th>
+                  <th style={headerCell}>Size</th>
+                  <th style={headerCell}>Total</th>
+                  <th style={headerCell}>Depth</th>
+                  <th style={headerCell}>Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {/* Asks best-last so both sides meet at the spread */}
+                <OrderBookRows entries={[...book.asks].reverse()} />
+                <tr>
+                  <td
+                    colSpan={5}
+                    style={{ borderTop: "1px solid #374151", height: "4px" }}
+                  />
+                </tr>
+                <OrderBookRows entries={book.bids} />
+              </tbody>
+            </table>
+            {book.asks.length === 0 && book.bids.length === 0 && (
+              <p style={{ color: "#6b7280", marginTop: "8px" }}>
+                No open orders for this pair
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Sweep */}
+        <div
+          style={{
+            marginBottom: "24px",
+            padding: "16px",
+            backgroundColor: "#111827",
+            borderRadius: "8px",
+            fontSize: "0.875rem",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "1.125rem",
+              fontWeight: "bold",
+              marginBottom: "8px",
+            }}
+          >
+            Sweep
+          </h2>
+          <p style={{ color: "#9ca3af", marginBottom: "8px" }}>
+            Fill the best orders up to a target in one transaction. The target
+            is in the asset you pay (quote to buy, base to sell); the limit is
+            a book price.
+          </p>
+          <input
+            value={state.takerId}
+            onChange={(e) =>
+              setState((prev) => ({ ...prev, takerId: e.target.value.trim() }))
+            }
+            placeholder="Taker account ID (0x...)"
+            spellCheck={false}
+            style={{ ...inputStyle, backgroundColor: "#000" }}
+          />
+          <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+            <select
+              value={state.sweepSide}
+              onChange={(e) =>
+                setState((prev) => ({
+                  ...prev,
+                  sweepSide: e.target.value as SweepParams["side"],
+                }))
+              }
+              style={{ ...inputStyle, width: "auto", marginBottom: 0 }}
+            >
+              <option value="buy">Buy base</option>
+              <option value="sell">Sell base</option>
+            </select>
+            <input
+              value={state.targetAmount}
+              onChange={(e) =>
+                setState((prev) => ({
+                  ...prev,
+                  targetAmount: e.target.value.trim(),
+                }))
+              }
+              placeholder="Target amount"
+              spellCheck={false}
+              style={{ ...inputStyle, marginBottom: 0 }}
+            />
+            <input
+              value={state.priceLimit}
+              onChange={(e) =>
+                setState((prev) => ({
+                  ...prev,
+                  priceLimit: e.target.value.trim(),
+                }))
+              }
+              placeholder={
+                state.sweepSide === "buy" ? "Max price" : "Min price"
+              }
+              spellCheck={false}
+              style={{ ...inputStyle, marginBottom: 0 }}
+            />
+            <input
+              value={state.slippageBps}
+              onChange={(e) =>
+                setState((prev) => ({
+                  ...prev,
+                  slippageBps: e.target.value.trim(),
+                }))
+              }
+              placeholder="Slippage (bps)"
+              title="Tolerated payout shortfall per order, in basis points"
+              spellCheck={false}
+              style={{ ...inputStyle, marginBottom: 0 }}
+            />
+            <button
+              onClick={() =>
+                previewSweep(
+                  state.takerId,
+                  {
+                    baseFaucetId: state.baseFaucetId,
+                    quoteFaucetId: state.quoteFaucetId,
+                    side: state.sweepSide,
+                    targetAmount: BigInt(state.targetAmount),
+                    priceLimit: Number(state.priceLimit),
+                  },
+                  Number(state.slippageBps),
+                )
+              }
+              disabled={!canSweep}
+              style={{
+                padding: "8px 16px",
+                backgroundColor: canSweep ? "#3b82f6" : "#374151",
+                color: "#fff",
+                border: "none",
+                borderRadius: "4px",
+                cursor: canSweep ? "pointer" : "not-allowed",
+                fontFamily: "monospace",
+              }}
+            >
+              {state.phase === "sweeping" ? "Sweeping..." : "Preview Sweep"}
+            </button>
+          </div>
+          {sweepPreview && (
+            <>
+              <div style={{ display: "flex", gap: "8px", marginTop: "16px" }}>
+                <button
+                  onClick={() => confirmSweep(sweepPreview)}
+                  disabled={isLoading}
+                  style={actionStyle}
+                >
+                  Prove &amp; Submit
+                </button>
+                <button
+                  onClick={() =>
+                    setState((prev) => ({ ...prev, sweepPreview: null }))
+                  }
+                  disabled={isLoading}
+                  style={actionStyle}
+                >
+                  Discard
+                </button>
+              </div>
+              <FillPreviewPanel tx={sweepPreview.tx} diff={sweepPreview.diff} />
+            </>
+          )}
+        </div>
+
+        {/* Logs */}
+        <div
+          style={{
+            backgroundColor: "#111827",
+            borderRadius: "8px",
+            padding: "16px",
+            fontSize: "0.875rem",
+            overflow: "auto",
+            maxHeight: "300px",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "1.125rem",
+              fontWeight: "bold",
+              marginBottom: "8px",
+            }}
+          >
+            Console Output
+          </h2>
+          {state.logs.length === 0 ? (
+            <p style={{ color: "#6b7280" }}>
+              Enter a faucet pair and click &quot;Load Order Book&quot;
+            </p>
+          ) : (
+            <pre style={{ whiteSpace: "pre-wrap" }}>
+              {state.logs.join("\n")}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+"use client";
+
+/**
+ * Cancel Order Page
+ *
+ * Maker-facing reclaim flow: lists the maker's open PSWAP notes (the original
+ * order or its latest leftover) and consumes one back into the maker's vault.
+ * The script allows the creator to reclaim at any time, and only the creator
+ * can recover a note once its expiration block has passed.
+ */
+
+import { useCallback, useState } from "react";
+import { checkNotes, parseNoteIds } from "@/lib/noteStatus";
+import { syncOrders } from "@/lib/orderStore";
+import {
+  buildReclaimRequest,
+  describeTransactionError,
+  findOpenOrders,
+  getExpiryStatus,
+  type ExpiryStatus,
+  type PswapScriptVersion,
+} from "@/lib/pswap";
+import { describeTransactionEvent, runTransaction } from "@/lib/transaction";
+import { useWebClient } from "@/lib/webClient";
+
+type CancelPhase = "idle" | "loading" | "cancelling" | "done" | "error";
+
+interface OrderRow {
+  noteId: string;
+  offered: string;
+  requested: string;
+  swapCount: bigint;
+  /** Input 9 (0 = no expiration) */
+  expirationBlock: number;
+  version: PswapScriptVersion;
+}
+
+interface CancelState {
+  logs: string[];
+  phase: CancelPhase;
+  makerId: string;
+  noteInput: string;
+  orders: OrderRow[];
+}
+
+function describeExpiry(expiry: ExpiryStatus): string {
+  if (!expiry.expires) return "never expires";
+  if (expiry.expired) return `expired at block ${expiry.expirationBlock}`;
+  return `expires in ${expiry.blocksRemaining} blocks (block ${expiry.expirationBlock})`;
+}
+
+export default function CancelOrderPage() {
+  const [state, setState] = useState<CancelState>({
+    logs: [],
+    phase: "idle",
+    makerId: "",
+    noteInput: "",
+    orders: [],
+  });
+  // The provider's background sync keeps the expiration countdown live
+  const { withClient, syncHeight } = useWebClient();
+
+  const log = useCallback((message: string) => {
+    console.log(message);
+    setState((prev) => ({
+      ...prev,
+      logs: [
+        ...prev.logs,
+        `[${new Date().toISOString().slice(11, 19)}] ${message}`,
+      ],
+    }));
+  }, []);
+
+  const setPhase = useCallback((phase: CancelPhase) => {
+    setState((prev) => ({ ...prev, phase }));
+  }, []);
+
+  const loadOrders = useCallback(
+    async (makerId: string, noteInput: string) => {
+      setPhase("loading");
+      try {
+        const orders = await withClient(async (client) => {
+          // Import any order IDs the maker pasted so their notes are tracked
+          const noteIds = parseNoteIds(noteInput);
+          if (noteIds.length > 0) {
+            log(`Importing ${noteIds.length} order note(s)...`);
+            await checkNotes(client, noteIds, { importPublicNotes: true });
+          }
+
+          // Persist fills / reclaims of the maker's stored orders
+          await syncOrders(client);
+          log(`Synced to block: ${await client.getSyncHeight()}`);
+
+          const { orders: open, malformed } = await findOpenOrders(
+            client,
+            makerId,
+          );
+          log(`Found ${open.length} open PSWAP note(s) for ${makerId}`);
+          for (const { noteId, error } of malformed) {
+            log(`  Skipped malformed PSWAP note ${noteId}: ${error}`);
+          }
+          return open;
+        });
+
+        const rows = orders.map((order) => ({
+          noteId: order.noteId,
+          offered: `${order.offeredAmount} of ${order.offeredFaucetId}`,
+          requested: `${order.inputs.requestedAmount} of ${order.requestedFaucetId}`,
+          swapCount: order.inputs.swapCount,
+          expirationBlock: order.inputs.expirationBlock,
+          version: order.version,
+        }));
+        setState((prev) => ({ ...prev, orders: rows }));
+        setPhase("done");
+      } catch (error) {
+        log(`${error}`);
+        console.error("Load orders error:", error);
+        setPhase("error");
+      }
+    },
+    [log, setPhase, withClient],
+  );
+
+  const cancelOrder = useCallback(
+    async (makerId: string, noteId: string) => {
+      setPhase("cancelling");
+      try {
+        log("");
+        log(`Reclaiming ${noteId}...`);
+        const request = await buildReclaimRequest(noteId);
+        const tx = await withClient((client) =>
+          runTransaction(client, makerId, request, {
+            label: "reclaim",
+            onEvent: (event) => log(describeTransactionEvent(event)),
+          }),
+        );
+        log(`  Reclaim submitted: ${tx.transactionId}`);
+        log("  Assets return to the maker's vault once the transaction commits");
+
+        setState((prev) => ({
+          ...prev,
+          orders: prev.orders.filter((order) => order.noteId !== noteId),
+        }));
+        setPhase("done");
+      } catch (error) {
+        log("Reclaim failed:");
+        for (const line of describeTransactionError(error)) log(`  ${line}`);
+        console.error("Reclaim error:", error);
+        setPhase("error");
+      }
+    },
+    [log, setPhase, withClient],
+  );
+
+  const isRunning = state.phase === "loading" || state.phase === "cancelling";
+
+  const inputStyle = {
+    width: "100%",
+    marginBottom: "16px",
+    padding: "8px",
+    backgroundColor: "#111827",
+    color: "#fff",
+    border: "1px solid #374151",
+    borderRadius: "4px",
+    fontFamily: "monospace",
+    fontSize: "0.875rem",
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        backgroundColor: "#000",
+        color: "#fff",
+        padding: "24px",
+        fontFamily: "monospace",
+      }}
+    >
+      <div style={{ maxWidth: "896px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "1.5rem",
+            fontWeight: "bold",
+            marginBottom: "16px",
+          }}
+        >
+          Cancel Order
+        </h1>
+        <p style={{ color: "#9ca3af", marginBottom: "24px" }}>
+          Reclaim your own PSWAP orders (or their latest leftover) back into
+          your vault. The maker account must exist in this browser&apos;s
+          client store.
+        </p>
+
+        <input
+          value={state.makerId}
+          onChange={(e) =>
+            setState((prev) => ({ ...prev, makerId: e.target.value.trim() }))
+          }
+          placeholder="Maker account ID (0x...)"
+          spellCheck={false}
+          style={inputStyle}
+        />
+        <textarea
+          value={state.noteInput}
+          onChange={(e) =>
+            setState((prev) => ({ ...prev, noteInput: e.target.value }))
+          }
+          placeholder="Optional: order note IDs to import"
+          rows={2}
+          spellCheck={false}
+          style={inputStyle}
+        />
+
+        <div
+          style={{
+            display: "flex",
+            gap: "16px",
+            marginBottom: "24px",
+            alignItems: "center",
+          }}
+        >
+          <button
+            onClick={() => loadOrders(state.makerId, state.noteInput)}
+            disabled={isRunning || !state.makerId}
+            style={{
+              padding: "8px 16px",
+              backgroundColor:
+                isRunning || !state.makerId ? "#374151" : "#3b82f6",
+              color: "#fff",
+              border: "none",
+              borderRadius: "4px",
+              cursor: isRunning || !state.makerId ? "not-allowed" : "pointer",
+              fontFamily: "monospace",
+            }}
+          >
+            {state.phase === "loading" ? "Loading..." : "Load Open Orders"}
+          </button>
+          {syncHeight !== null && (
+            <span style={{ color: "#6b7280" }}>
+              Block: {syncHeight}
+            </span>
+          )}
+        </div>
+
+        {/* Open orders */}
+        {state.orders.length > 0 && (
+          <div
+            style={{
+              marginBottom: "24px",
+              padding: "16px",
+              backgroundColor: "#111827",
+              borderRadius: "8px",
+              fontFamily: "monospace",
+              fontSize: "0.875rem",
+            }}
+          >
+            <h2
+              style={{
+                fontSize: "1.125rem",
+                fontWeight: "bold",
+                marginBottom: "8px",
+              }}
+            >
+              Open Orders
+            </h2>
+            {state.orders.map((order) => {
+              const expiry = getExpiryStatus(
+                order.expirationBlock,
+                syncHeight ?? 0,
+                order.version,
+              );
+              return (
+                <div
+                  key={order.noteId}
+                  style={{
+                    marginBottom: "12px",
+                    display: "flex",
+                    justifyContent: "space-between",
+                    gap: "16px",
+                  }}
+                >
+                  <div>
+                    <div>{order.noteId}</div>
+                    <div style={{ color: "#9ca3af" }}>
+                      Offers {order.offered} for {order.requested}
+                    </div>
+                    <div
+                      style={{
+                        color: expiry.expired ? "#ef4444" : "#6b7280",
+                      }}
+                    >
+                      Fills: {order.swapCount.toString()} ·{" "}
+                      {describeExpiry(expiry)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => cancelOrder(state.makerId, order.noteId)}
+                    disabled={isRunning}
+                    style={{
+                      padding: "8px 16px",
+                      backgroundColor: isRunning ? "#374151" : "#ef4444",
+                      color: "#fff",
+                      border: "none",
+                      borderRadius: "4px",
+                      cursor: isRunning ? "not-allowed" : "pointer",
+                      fontFamily: "monospace",
+                      alignSelf: "center",
+                    }}
+                  >
+                    {expiry.expired ? "Recover" : "Cancel"}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Logs */}
+        <div
+          style={{
+            backgroundColor: "#111827",
+            borderRadius: "8px",
+            padding: "16px",
+            fontFamily: "monospace",
+            fontSize: "0.875rem",
+            overflow: "auto",
+            maxHeight: "600px",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "1.125rem",
+              fontWeight: "bold",
+              marginBottom: "8px",
+            }}
+          >
+            Console Output
+          </h2>
+          {state.logs.length === 0 ? (
+            <p style={{ color: "#6b7280" }}>
+              Enter a maker account and click &quot;Load Open Orders&quot;
+            </p>
+          ) : (
+            <pre style={{ whiteSpace: "pre-wrap" }}>
+              {state.logs.join("\n")}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
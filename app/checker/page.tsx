@@ -1,32 +1,160 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { PSWAP_NOTE_ID } from "@/lib/constants";
-import { getRpcNote } from "@/lib/rpcClient";
-
-type TestPhase =
-  | "idle"
-  | "init"
-  | "create-faucets"
-  | "create-wallets"
-  | "mint-tokens"
-  | "create-swapp"
-  | "fill-swapp"
-  | "consume-p2id"
-  | "verify"
-  | "done"
-  | "error";
+import {
+  checkNotes,
+  isNoteId,
+  parseNoteIds,
+  type NoteLifecycle,
+} from "@/lib/noteStatus";
+import {
+  inspectPswapNote,
+  loadPswapScriptRegistry,
+  type PswapNoteInspection,
+} from "@/lib/pswap";
+import { useWebClient } from "@/lib/webClient";
+
+type CheckPhase = "idle" | "checking" | "done" | "error";
+
+interface NoteCheckRow extends Omit<NoteLifecycle, "note"> {
+  /** PSWAP version label, "unknown script", or null for other notes */
+  script: string | null;
+  inspection: PswapNoteInspection | null;
+}
+
 interface TestState {
   logs: string[];
-  phase: TestPhase;
+  phase: CheckPhase;
+  noteInput: string;
+  /** Import untracked public notes so their nullifiers are synced */
+  trackNotes: boolean;
+  rows: NoteCheckRow[];
+}
+
+const STATUS_COLORS: Record<NoteLifecycle["status"], string> = {
+  open: "#22c55e",
+  consumed: "#6b7280",
+  "not-found": "#ef4444",
+  invalid: "#ef4444",
+  unknown: "#eab308",
+};
+
+/** Public notes whose consumption the node could not tell us */
+function isUntrackedPublic(row: NoteCheckRow): boolean {
+  return row.visibility === "public" && !row.tracked && row.consumed === null;
+}
+
+const UNTRACKED_NOTICE =
+  "Consumption is unknown for public notes this client does not track: the " +
+  "node cannot look up nullifiers directly. Tick \"Track public notes\" and " +
+  "check again to import them and sync their nullifiers.";
+
+function PswapInspectionPanel({
+  inspection,
+}: {
+  inspection: PswapNoteInspection;
+}) {
+  const { inputs } = inspection;
+  const rows: [string, string][] = [
+    [
+      "Offered (vault)",
+      inspection.offered
+        ? `${inspection.offered.amount} of ${inspection.offered.faucetId}`
+        : "none",
+    ],
+    [
+      "Requested",
+      inspection.requested
+        ? `${inspection.requested.amount} of ${inspection.requested.faucetId}`
+        : "unknown",
+    ],
+    [
+      "Price",
+      inspection.price !== null
+        ? `${inspection.price} requested per offered`
+        : "unknown",
+    ],
+  ];
+  rows.unshift(["Script", inspection.scriptVersion ?? "unknown script"]);
+  if (inputs) {
+    rows.push(
+      ["SWAPP tag", `${inputs.swappTag} (0x${inputs.swappTag.toString(16)})`],
+      ["P2ID tag", `${inputs.p2idTag} (0x${inputs.p2idTag.toString(16)})`],
+      ["Swap count", inputs.swapCount.toString()],
+      [
+        "Expiration block",
+        inputs.expirationBlock === 0 ? "never" : `${inputs.expirationBlock}`,
+      ],
+      [
+        "Min fill",
+        inspection.minFillAmount === null
+          ? "not enforced by this script"
+          : inspection.minFillAmount === BigInt(0)
+            ? "any size"
+            : `${inspection.minFillAmount} requested (or the whole remainder)`,
+      ],
+      ["Creator", inspection.creatorId ?? "unknown"],
+    );
+  }
+
+  return (
+    <div
+      style={{
+        marginBottom: "24px",
+        padding: "16px",
+        backgroundColor: "#111827",
+        borderRadius: "8px",
+        fontFamily: "monospace",
+        fontSize: "0.875rem",
+      }}
+    >
+      <h2
+        style={{
+          fontSize: "1.125rem",
+          fontWeight: "bold",
+          marginBottom: "8px",
+        }}
+      >
+        Decoded PSWAP Note
+      </h2>
+      <div style={{ color: "#9ca3af", marginBottom: "8px" }}>
+        {inspection.noteId}
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label}>
+          <span
+            style={{ color: "#6b7280", display: "inline-block", width: "160px" }}
+          >
+            {label}
+          </span>
+          {value}
+        </div>
+      ))}
+      {inspection.issues.length > 0 && (
+        <div style={{ marginTop: "8px", color: "#ef4444" }}>
+          {inspection.issues.map((issue) => (
+            <div key={issue.code}>
+              MALFORMED ({issue.code}): {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function CheckerPage() {
   const [state, setState] = useState<TestState>({
     logs: [],
     phase: "idle",
+    noteInput: PSWAP_NOTE_ID,
+    trackNotes: false,
+    rows: [],
   });
 
+  const { withClient } = useWebClient();
+
   const log = useCallback((message: string) => {
     console.log(message);
     setState((prev) => ({
@@ -38,70 +166,103 @@ export default function CheckerPage() {
     }));
   }, []);
 
-  const setPhase = useCallback((phase: TestPhase) => {
+  const setPhase = useCallback((phase: CheckPhase) => {
     setState((prev) => ({ ...prev, phase }));
   }, []);
 
-  const runCheck = useCallback(async () => {
-    const {
-      WebClient,
-      AccountStorageMode,
-      NoteType,
-      Word,
-      Felt,
-      FungibleAsset,
-      Note,
-      NoteAssets,
-      NoteMetadata,
-      NoteRecipient,
-      NoteTag,
-      NoteExecutionHint,
-      NoteExecutionMode,
-      NoteInputs,
-      OutputNote,
-      TransactionRequestBuilder,
-      MidenArrays,
-    } = await import("@demox-labs/miden-sdk");
-
-    const rpcUrl = "https://rpc.testnet.miden.io:443";
-    const webClient = await WebClient.createClient(rpcUrl);
-    log("WebClient created!");
-
-    await webClient.syncState();
-
-    const syncHeight = await webClient.getSyncHeight();
-    log(`Synced to block: ${syncHeight}`);
-
-    const fetchedNote = await getRpcNote(PSWAP_NOTE_ID);
-
-    if (fetchedNote) {
-      const noteId = fetchedNote.inputNote?.id();
-      if (noteId) log(`Note ID -> ${noteId}`);
-
-      const noteMetadata = fetchedNote.metadata;
-      if (noteMetadata) {
-        log(`Sender: ${noteMetadata.sender().toString()}`);
-        log(`Tag: ${noteMetadata.tag().asU32()}`);
-        log(`Note Type: ${noteMetadata.noteType()}`);
+  const runCheck = useCallback(
+    async (noteInput: string, trackNotes: boolean) => {
+      const noteIds = parseNoteIds(noteInput);
+      if (noteIds.length === 0) {
+        log("Enter at least one note ID");
+        return;
+      }
+      // Malformed IDs still get an "invalid" row, but need no client
+      if (!noteIds.some(isNoteId)) {
+        log("No valid note IDs (expected 0x and 64 hex digits)");
+        return;
       }
 
-      if (fetchedNote?.inputNote) {
-        try {
-          log("Found the NoteID!");
-          const inputNote = fetchedNote.inputNote;
-          const { NoteFile } = await import("@demox-labs/miden-sdk");
-          const noteFile = NoteFile.fromInputNote(inputNote);
-          await webClient.importNoteFile(noteFile);
-        } catch (error) {
-          console.error("Error on inputNote check ", error);
-          throw new Error("fail");
+      setState((prev) => ({ ...prev, phase: "checking", rows: [] }));
+      try {
+        const { lifecycles, registry } = await withClient(async (webClient) => {
+          await webClient.syncState();
+
+          const syncHeight = await webClient.getSyncHeight();
+          log(`Synced to block: ${syncHeight}`);
+
+          log(`Checking ${noteIds.length} note(s)...`);
+          return {
+            lifecycles: await checkNotes(webClient, noteIds, {
+              importPublicNotes: trackNotes,
+            }),
+            registry: await loadPswapScriptRegistry(webClient),
+          };
+        });
+
+        const rows = lifecycles.map(({ note, ...lifecycle }) => {
+          const match = note ? registry.match(note) : null;
+          let script: string | null = null;
+          let inspection: PswapNoteInspection | null = null;
+          if (note && match?.kind === "pswap") {
+            script = match.version.label;
+            inspection = inspectPswapNote(note, match.version);
+          } else if (note && match?.kind === "unknown-script") {
+            // Swap tag but no known root: an order from a version we don't ship
+            script = "unknown script";
+            inspection = inspectPswapNote(note, null);
+          }
+          log("");
+          log(`Note ${lifecycle.noteId}`);
+          log(`  Status:     ${lifecycle.status}`);
+          log(`  Found:      ${lifecycle.found ? "yes" : "no"}`);
+          log(`  Visibility: ${lifecycle.visibility ?? "-"}`);
+          log(`  Included:   ${lifecycle.inclusionBlock ?? "-"}`);
+          log(
+            `  Consumed:   ${lifecycle.consumed === null ? "unknown" : lifecycle.consumed ? "yes" : "no"}`,
+          );
+          if (match) {
+            log(
+              `  Script:     ${script ?? "not a PSWAP note"}${match.kind === "pswap" ? "" : ` (root ${match.scriptRoot})`}`,
+            );
+          }
+          if (lifecycle.error) log(`  Error:      ${lifecycle.error}`);
+          for (const issue of inspection?.issues ?? []) {
+            log(`  MALFORMED (${issue.code}): ${issue.message}`);
+          }
+          return { ...lifecycle, script, inspection };
+        });
+
+        if (rows.some(isUntrackedPublic)) {
+          log("");
+          log(UNTRACKED_NOTICE);
         }
+        setState((prev) => ({ ...prev, rows }));
+        setPhase("done");
+      } catch (error) {
+        log(`${error}`);
+        console.error("Check error:", error);
+        setPhase("error");
       }
-    }
-  }, [log, setPhase]);
+    },
+    [log, setPhase, withClient],
+  );
+
+  // Support deep links: /checker?note=0xabc&note=0xdef (or ?note=0xabc,0xdef)
+  const deepLinkHandled = useRef(false);
+  useEffect(() => {
+    if (deepLinkHandled.current) return;
+    deepLinkHandled.current = true;
+
+    const params = new URLSearchParams(window.location.search).getAll("note");
+    if (params.length === 0) return;
 
-  const isRunning =
-    state.phase !== "idle" && state.phase !== "done" && state.phase !== "error";
+    const noteInput = parseNoteIds(params.join(",")).join("\n");
+    setState((prev) => ({ ...prev, noteInput }));
+    runCheck(noteInput, false);
+  }, [runCheck]);
+
+  const isRunning = state.phase === "checking";
 
   return (
     <div
@@ -124,9 +285,30 @@ export default function CheckerPage() {
           Note Hunt
         </h1>
         <p style={{ color: "#9ca3af", marginBottom: "24px" }}>
-          See if we can find the note {PSWAP_NOTE_ID}
+          Paste one or more note IDs (comma or newline separated), or link to
+          /checker?note=0x...
         </p>
 
+        <textarea
+          value={state.noteInput}
+          onChange={(e) =>
+            setState((prev) => ({ ...prev, noteInput: e.target.value }))
+          }
+          rows={4}
+          spellCheck={false}
+          style={{
+            width: "100%",
+            marginBottom: "16px",
+            padding: "8px",
+            backgroundColor: "#111827",
+            color: "#fff",
+            border: "1px solid #374151",
+            borderRadius: "4px",
+            fontFamily: "monospace",
+            fontSize: "0.875rem",
+          }}
+        />
+
         <div
           style={{
             display: "flex",
@@ -136,7 +318,7 @@ export default function CheckerPage() {
           }}
         >
           <button
-            onClick={runCheck}
+            onClick={() => runCheck(state.noteInput, state.trackNotes)}
             disabled={isRunning}
             style={{
               padding: "8px 16px",
@@ -149,18 +331,101 @@ export default function CheckerPage() {
             }}
           >
             {state.phase === "idle"
-              ? "Run Test"
+              ? "Check Notes"
               : state.phase === "done"
-                ? "Run Again"
+                ? "Check Again"
                 : state.phase === "error"
                   ? "Retry"
-                  : "Running..."}
+                  : "Checking..."}
           </button>
+          <label style={{ color: "#9ca3af" }}>
+            <input
+              type="checkbox"
+              checked={state.trackNotes}
+              onChange={(e) =>
+                setState((prev) => ({ ...prev, trackNotes: e.target.checked }))
+              }
+              style={{ marginRight: "8px" }}
+            />
+            Track public notes in this client (imports them)
+          </label>
+        </div>
 
+        {/* Note status */}
+        {state.rows.length > 0 && (
           <div
-            style={{ display: "flex", alignItems: "center", gap: "8px" }}
-          ></div>
-        </div>
+            style={{
+              marginBottom: "24px",
+              padding: "16px",
+              backgroundColor: "#111827",
+              borderRadius: "8px",
+              fontFamily: "monospace",
+              fontSize: "0.875rem",
+            }}
+          >
+            <h2
+              style={{
+                fontSize: "1.125rem",
+                fontWeight: "bold",
+                marginBottom: "8px",
+              }}
+            >
+              Note Status
+            </h2>
+            {state.rows.map((row) => (
+              <div key={row.noteId} style={{ marginBottom: "8px" }}>
+                <div>
+                  <span style={{ color: STATUS_COLORS[row.status] }}>
+                    [{row.status}]
+                  </span>{" "}
+                  {row.noteId}
+                </div>
+                <div style={{ color: "#9ca3af", paddingLeft: "16px" }}>
+                  {row.visibility ?? "-"} · included at block{" "}
+                  {row.inclusionBlock ?? "-"} · nullifier{" "}
+                  {row.consumed === null
+                    ? isUntrackedPublic(row)
+                      ? "unknown (not tracked)"
+                      : "unknown"
+                    : row.consumed
+                      ? "consumed"
+                      : "unspent"}
+                  {row.script && (
+                    <span
+                      style={{
+                        color:
+                          row.script === "unknown script"
+                            ? "#eab308"
+                            : undefined,
+                      }}
+                    >
+                      {" "}
+                      · {row.script}
+                    </span>
+                  )}
+                  {row.error && (
+                    <span style={{ color: "#ef4444" }}> · {row.error}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+            {state.rows.some(isUntrackedPublic) && (
+              <div style={{ marginTop: "8px", color: "#eab308" }}>
+                {UNTRACKED_NOTICE}
+              </div>
+            )}
+          </div>
+        )}
+
+        {state.rows.map(
+          (row) =>
+            row.inspection && (
+              <PswapInspectionPanel
+                key={row.noteId}
+                inspection={row.inspection}
+              />
+            ),
+        )}
 
         {/* Logs */}
         <div
@@ -185,7 +450,7 @@ export default function CheckerPage() {
           </h2>
           {state.logs.length === 0 ? (
             <p style={{ color: "#6b7280" }}>
-              Click &quot;Run Test&quot; to start
+              Click &quot;Check Notes&quot; to start
             </p>
           ) : (
             <pre style={{ whiteSpace: "pre-wrap" }}>
@@ -1,4 +1,6 @@
 import type { Metadata } from "next";
+import { WebClientProvider } from "@/lib/webClient";
+import P2idRootBanner from "./P2idRootBanner";
 
 export const metadata: Metadata = {
   title: "PSWAP Partial Fill Test",
@@ -12,7 +14,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body>{children}</body>
+      <body>
+        <P2idRootBanner />
+        <WebClientProvider>{children}</WebClientProvider>
+      </body>
     </html>
   );
 }
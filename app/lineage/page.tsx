@@ -0,0 +1,279 @@
+"use client";
+
+/**
+ * Order Lineage Page
+ *
+ * Follows a PSWAP order from its original note through every partial fill:
+ * each fill consumes the note and creates a P2ID payback plus a leftover with
+ * a new ID, so one order is a chain of notes.
+ *
+ * Deep link: /lineage?note=0x...
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  traceOrderLineage,
+  type LineageStatus,
+  type OrderLineage,
+} from "@/lib/pswap";
+import { useWebClient } from "@/lib/webClient";
+
+type LineagePhase = "idle" | "tracing" | "done" | "error";
+
+interface LineageState {
+  logs: string[];
+  phase: LineagePhase;
+  noteInput: string;
+  lineage: OrderLineage | null;
+}
+
+const STATUS_COLORS: Record<LineageStatus, string> = {
+  open: "#22c55e",
+  filled: "#3b82f6",
+  consumed: "#eab308",
+  unknown: "#6b7280",
+};
+
+function OnChainMark({ onChain }: { onChain: boolean }) {
+  return (
+    <span style={{ color: onChain ? "#22c55e" : "#ef4444" }}>
+      {onChain ? "✓" : "✗"}
+    </span>
+  );
+}
+
+export default function LineagePage() {
+  const [state, setState] = useState<LineageState>({
+    logs: [],
+    phase: "idle",
+    noteInput: "",
+    lineage: null,
+  });
+  const { withClient } = useWebClient();
+
+  const log = useCallback((message: string) => {
+    console.log(message);
+    setState((prev) => ({
+      ...prev,
+      logs: [
+        ...prev.logs,
+        `[${new Date().toISOString().slice(11, 19)}] ${message}`,
+      ],
+    }));
+  }, []);
+
+  const trace = useCallback(
+    async (noteInput: string) => {
+      const noteId = noteInput.trim().toLowerCase();
+      setState((prev) => ({ ...prev, phase: "tracing", lineage: null }));
+      try {
+        log(`Tracing ${noteId}...`);
+        const lineage = await withClient((client) =>
+          traceOrderLineage(
+            client,
+            noteId.startsWith("0x") ? noteId : `0x${noteId}`,
+          ),
+        );
+        log(
+          `  ${lineage.fills.length} fill(s), status: ${lineage.status}, live note: ${lineage.liveNoteId ?? "none"}`,
+        );
+        setState((prev) => ({ ...prev, phase: "done", lineage }));
+      } catch (error) {
+        log(`${error}`);
+        console.error("Lineage error:", error);
+        setState((prev) => ({ ...prev, phase: "error" }));
+      }
+    },
+    [log, withClient],
+  );
+
+  // Trace deep-linked order once on load
+  const deepLinkHandled = useRef(false);
+  useEffect(() => {
+    if (deepLinkHandled.current) return;
+    deepLinkHandled.current = true;
+
+    const noteId = new URLSearchParams(window.location.search).get("note");
+    if (!noteId) return;
+    setState((prev) => ({ ...prev, noteInput: noteId }));
+    trace(noteId);
+  }, [trace]);
+
+  const isTracing = state.phase === "tracing";
+  const lineage = state.lineage;
+  const cell = { padding: "4px 8px", textAlign: "right" as const };
+  const headerCell = { ...cell, color: "#9ca3af", fontWeight: "normal" };
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        backgroundColor: "#000",
+        color: "#fff",
+        padding: "24px",
+        fontFamily: "monospace",
+      }}
+    >
+      <div style={{ maxWidth: "896px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "1.5rem",
+            fontWeight: "bold",
+            marginBottom: "16px",
+          }}
+        >
+          Order Lineage
+        </h1>
+        <p style={{ color: "#9ca3af", marginBottom: "24px" }}>
+          Fill history of a PSWAP order. Successors are found among notes this
+          browser&apos;s client has synced (the maker&apos;s P2ID paybacks and
+          leftovers under the order&apos;s swap tag) and confirmed on chain.
+        </p>
+
+        <input
+          value={state.noteInput}
+          onChange={(e) =>
+            setState((prev) => ({ ...prev, noteInput: e.target.value }))
+          }
+          placeholder="Original order note ID (0x...)"
+          spellCheck={false}
+          style={{
+            width: "100%",
+            marginBottom: "16px",
+            padding: "8px",
+            backgroundColor: "#111827",
+            color: "#fff",
+            border: "1px solid #374151",
+            borderRadius: "4px",
+            fontFamily: "monospace",
+            fontSize: "0.875rem",
+          }}
+        />
+        <button
+          onClick={() => trace(state.noteInput)}
+          disabled={isTracing || !state.noteInput.trim()}
+          style={{
+            padding: "8px 16px",
+            marginBottom: "24px",
+            backgroundColor:
+              isTracing || !state.noteInput.trim() ? "#374151" : "#3b82f6",
+            color: "#fff",
+            border: "none",
+            borderRadius: "4px",
+            cursor:
+              isTracing || !state.noteInput.trim() ? "not-allowed" : "pointer",
+            fontFamily: "monospace",
+          }}
+        >
+          {isTracing ? "Tracing..." : "Trace Order"}
+        </button>
+
+        {lineage && (
+          <div
+            style={{
+              marginBottom: "24px",
+              padding: "16px",
+              backgroundColor: "#111827",
+              borderRadius: "8px",
+              fontSize: "0.875rem",
+            }}
+          >
+            <div>Maker: {lineage.creatorId}</div>
+            <div>
+              Original: {lineage.originalOffered.toString()} of{" "}
+              {lineage.offeredFaucetId} for{" "}
+              {lineage.originalRequested.toString()} of{" "}
+              {lineage.requestedFaucetId}
+            </div>
+            <div>
+              Remaining: {lineage.remainingOffered.toString()} for{" "}
+              {lineage.remainingRequested.toString()}
+            </div>
+            <div>
+              Status:{" "}
+              <span style={{ color: STATUS_COLORS[lineage.status] }}>
+                {lineage.status}
+              </span>
+            </div>
+            <div style={{ marginBottom: "16px" }}>
+              Live note: {lineage.liveNoteId ?? "none"}
+            </div>
+
+            {lineage.fills.length > 0 && (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    <th style={headerCell}>#</th>
+                    <th style={headerCell}>Fill</th>
+                    <th style={headerCell}>Paid out</th>
+                    <th style={headerCell}>P2ID payback</th>
+                    <th style={headerCell}>Leftover</th>
+                    <th style={headerCell}>Remaining</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lineage.fills.map((fill) => (
+                    <tr key={fill.filledNoteId}>
+                      <td style={cell}>{fill.swapCount.toString()}</td>
+                      <td style={cell}>{fill.fillAmount.toString()}</td>
+                      <td style={cell}>{fill.takerReceives.toString()}</td>
+                      <td style={cell} title={fill.p2idNoteId}>
+                        {fill.p2idNoteId.slice(0, 12)}…{" "}
+                        <OnChainMark onChain={fill.p2idOnChain} />
+                      </td>
+                      <td style={cell} title={fill.leftoverNoteId ?? ""}>
+                        {fill.leftoverNoteId ? (
+                          <>
+                            {fill.leftoverNoteId.slice(0, 12)}…{" "}
+                            <OnChainMark onChain={fill.leftoverOnChain} />
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td style={cell}>
+                        {fill.remainingOffered.toString()} /{" "}
+                        {fill.remainingRequested.toString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {/* Logs */}
+        <div
+          style={{
+            backgroundColor: "#111827",
+            borderRadius: "8px",
+            padding: "16px",
+            fontSize: "0.875rem",
+            overflow: "auto",
+            maxHeight: "300px",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "1.125rem",
+              fontWeight: "bold",
+              marginBottom: "8px",
+            }}
+          >
+            Console Output
+          </h2>
+          {state.logs.length === 0 ? (
+            <p style={{ color: "#6b7280" }}>
+              Enter an order note ID and click &quot;Trace Order&quot;
+            </p>
+          ) : (
+            <pre style={{ whiteSpace: "pre-wrap" }}>
+              {state.logs.join("\n")}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
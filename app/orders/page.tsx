@@ -0,0 +1,372 @@
+"use client";
+
+/**
+ * My Orders Page
+ *
+ * Lists the PSWAP orders persisted for each maker account in this browser,
+ * survives reloads, and shows the fills and reclaims the provider's sync loop
+ * records on every new block.
+ */
+
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getOrdersByMaker,
+  isOrderFinal,
+  syncOrders,
+  type StoredOrder,
+  type StoredOrderStatus,
+} from "@/lib/orderStore";
+import {
+  buildReclaimRequest,
+  describeTransactionError,
+  getExpiryStatus,
+} from "@/lib/pswap";
+import { describeTransactionEvent, runTransaction } from "@/lib/transaction";
+import { useAccount, useWebClient } from "@/lib/webClient";
+
+type OrdersPhase =
+  | "idle"
+  | "syncing"
+  | "cancelling"
+  | "done"
+  | "error";
+
+interface OrdersState {
+  logs: string[];
+  phase: OrdersPhase;
+  makers: string[];
+  makerId: string;
+  orders: StoredOrder[];
+}
+
+const STATUS_COLORS: Record<StoredOrderStatus, string> = {
+  open: "#22c55e",
+  "partially-filled": "#eab308",
+  filled: "#3b82f6",
+  reclaimed: "#6b7280",
+  closed: "#6b7280",
+};
+
+export default function MyOrdersPage() {
+  const [state, setState] = useState<OrdersState>({
+    logs: [],
+    phase: "idle",
+    makers: [],
+    makerId: "",
+    orders: [],
+  });
+  const { withClient, syncHeight, ordersHeight, ordersError } = useWebClient();
+  const { data: makerAccount } = useAccount(state.makerId || null);
+
+  const log = useCallback((message: string) => {
+    console.log(message);
+    setState((prev) => ({
+      ...prev,
+      logs: [
+        ...prev.logs,
+        `[${new Date().toISOString().slice(11, 19)}] ${message}`,
+      ],
+    }));
+  }, []);
+
+  /**
+   * Sync, persist observed fills / reclaims, and reload the maker's orders
+   */
+  const sync = useCallback(
+    async (makerId: string) => {
+      setState((prev) => ({ ...prev, phase: "syncing" }));
+      try {
+        const makers = await withClient(async (client) => {
+          const { updated, failed } = await syncOrders(client);
+          log(
+            `Synced to block ${await client.getSyncHeight()}, refreshed ${updated.length} order(s)`,
+          );
+          for (const { originNoteId, error } of failed) {
+            log(`  Could not refresh ${originNoteId}: ${error}`);
+          }
+          return (await client.getAccounts())
+            .map((account) => account.id())
+            .filter((id) => !id.isFaucet())
+            .map((id) => id.toString().toLowerCase());
+        });
+        const selected = makerId || makers[0] || "";
+        const orders = selected ? await getOrdersByMaker(selected) : [];
+
+        setState((prev) => ({
+          ...prev,
+          phase: "done",
+          makers,
+          makerId: selected,
+          orders,
+        }));
+      } catch (error) {
+        log(`${error}`);
+        console.error("Orders sync error:", error);
+        setState((prev) => ({ ...prev, phase: "error" }));
+      }
+    },
+    [log, withClient],
+  );
+
+  const selectMaker = useCallback(async (makerId: string) => {
+    const orders = await getOrdersByMaker(makerId);
+    setState((prev) => ({ ...prev, makerId, orders }));
+  }, []);
+
+  const cancel = useCallback(
+    async (order: StoredOrder) => {
+      if (!order.liveNoteId) return;
+      setState((prev) => ({ ...prev, phase: "cancelling" }));
+      try {
+        const request = await buildReclaimRequest(order.liveNoteId);
+        const tx = await withClient((client) =>
+          runTransaction(client, order.makerId, request, {
+            label: "reclaim",
+            onEvent: (event) => log(describeTransactionEvent(event)),
+          }),
+        );
+        log(`Reclaim of ${order.liveNoteId} submitted: ${tx.transactionId}`);
+        log("  The order is marked reclaimed once a sync sees the nullifier");
+        setState((prev) => ({ ...prev, phase: "done" }));
+      } catch (error) {
+        log("Reclaim failed:");
+        for (const line of describeTransactionError(error)) log(`  ${line}`);
+        console.error("Reclaim error:", error);
+        setState((prev) => ({ ...prev, phase: "error" }));
+      }
+    },
+    [log, withClient],
+  );
+
+  // Load stored orders and refresh them once on page load
+  const loaded = useRef(false);
+  useEffect(() => {
+    if (loaded.current) return;
+    loaded.current = true;
+    sync("");
+  }, [sync]);
+
+  // Follow fills and reclaims live: reload after each refresh by the sync loop
+  const { makerId } = state;
+  useEffect(() => {
+    if (ordersHeight === null || !makerId) return;
+    let stale = false;
+    getOrdersByMaker(makerId).then(
+      (orders) => !stale && setState((prev) => ({ ...prev, orders })),
+      (error) => console.log("Order reload failed:", error),
+    );
+    return () => {
+      stale = true;
+    };
+  }, [ordersHeight, makerId]);
+
+  const isBusy = state.phase === "syncing" || state.phase === "cancelling";
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        backgroundColor: "#000",
+        color: "#fff",
+        padding: "24px",
+        fontFamily: "monospace",
+      }}
+    >
+      <div style={{ maxWidth: "896px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "1.5rem",
+            fontWeight: "bold",
+            marginBottom: "16px",
+          }}
+        >
+          My Orders
+        </h1>
+        <p style={{ color: "#9ca3af", marginBottom: "24px" }}>
+          Orders created in this browser, kept across reloads. Each sync
+          follows fills to the order&apos;s current note and detects reclaims.
+        </p>
+
+        <div
+          style={{
+            display: "flex",
+            gap: "16px",
+            marginBottom: "24px",
+            alignItems: "center",
+          }}
+        >
+          <select
+            value={state.makerId}
+            onChange={(e) => selectMaker(e.target.value)}
+            disabled={isBusy || state.makers.length === 0}
+            style={{
+              flex: 1,
+              padding: "8px",
+              backgroundColor: "#111827",
+              color: "#fff",
+              border: "1px solid #374151",
+              borderRadius: "4px",
+              fontFamily: "monospace",
+            }}
+          >
+            {state.makers.length === 0 && <option value="">No accounts</option>}
+            {state.makers.map((maker) => (
+              <option key={maker} value={maker}>
+                {maker}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => sync(state.makerId)}
+            disabled={isBusy}
+            style={{
+              padding: "8px 16px",
+              backgroundColor: isBusy ? "#374151" : "#3b82f6",
+              color: "#fff",
+              border: "none",
+              borderRadius: "4px",
+              cursor: isBusy ? "not-allowed" : "pointer",
+              fontFamily: "monospace",
+            }}
+          >
+            {state.phase === "syncing" ? "Syncing..." : "Sync"}
+          </button>
+          {syncHeight !== null && (
+            <span style={{ color: "#6b7280" }}>Block: {syncHeight}</span>
+          )}
+          {ordersError !== null && (
+            <span style={{ color: "#eab308" }}>
+              Orders may be stale (refresh failed: {`${ordersError}`})
+            </span>
+          )}
+        </div>
+
+        {makerAccount && (
+          <div
+            style={{
+              marginBottom: "24px",
+              padding: "16px",
+              backgroundColor: "#111827",
+              borderRadius: "8px",
+              fontSize: "0.875rem",
+            }}
+          >
+            <div style={{ color: "#9ca3af" }}>Balances (live)</div>
+            {makerAccount.vault().fungibleAssets().length === 0 && (
+              <div style={{ color: "#6b7280" }}>Empty vault</div>
+            )}
+            {makerAccount
+              .vault()
+              .fungibleAssets()
+              .map((asset) => (
+                <div key={asset.faucetId().toString()}>
+                  {asset.faucetId().toString()}: {asset.amount().toString()}
+                </div>
+              ))}
+          </div>
+        )}
+
+        {state.orders.length === 0 ? (
+          <p style={{ color: "#6b7280", marginBottom: "24px" }}>
+            No stored orders for this account
+          </p>
+        ) : (
+          state.orders.map((order) => {
+            const expiry = getExpiryStatus(
+              order.expirationBlock,
+              syncHeight ?? 0,
+            );
+            return (
+              <div
+                key={order.originNoteId}
+                style={{
+                  marginBottom: "16px",
+                  padding: "16px",
+                  backgroundColor: "#111827",
+                  borderRadius: "8px",
+                  fontSize: "0.875rem",
+                }}
+              >
+                <div style={{ display: "flex", justifyContent: "space-between" }}>
+                  <span style={{ color: STATUS_COLORS[order.status] }}>
+                    {order.status}
+                    {order.visibility === "private" && " · private"}
+                  </span>
+                  <span style={{ color: "#6b7280" }}>
+                    {new Date(order.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <div>Order: {order.originNoteId}</div>
+                <div style={{ color: "#9ca3af" }}>
+                  {order.offeredAmount} of {order.offeredFaucetId} for{" "}
+                  {order.requestedAmount} of {order.requestedFaucetId}
+                </div>
+                <div>
+                  Remaining: {order.remainingOffered} for{" "}
+                  {order.remainingRequested} after {order.fillCount} fill(s)
+                </div>
+                <div>Live note: {order.liveNoteId ?? "none"}</div>
+                <div style={{ color: expiry.expired ? "#ef4444" : "#6b7280" }}>
+                  {!expiry.expires
+                    ? "Never expires"
+                    : expiry.expired
+                      ? `Expired at block ${expiry.expirationBlock}`
+                      : `Expires in ${expiry.blocksRemaining} blocks`}
+                </div>
+                <div style={{ marginTop: "8px", display: "flex", gap: "16px" }}>
+                  <Link
+                    href={`/lineage?note=${order.originNoteId}`}
+                    style={{ color: "#3b82f6", textDecoration: "underline" }}
+                  >
+                    Lineage
+                  </Link>
+                  {!isOrderFinal(order) && (
+                    <button
+                      onClick={() => cancel(order)}
+                      disabled={isBusy}
+                      style={{
+                        padding: "0",
+                        background: "none",
+                        border: "none",
+                        color: isBusy ? "#6b7280" : "#ef4444",
+                        textDecoration: "underline",
+                        cursor: isBusy ? "not-allowed" : "pointer",
+                        fontFamily: "monospace",
+                      }}
+                    >
+                      {expiry.expired ? "Recover" : "Cancel"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {/* Logs */}
+        <div
+          style={{
+            backgroundColor: "#111827",
+            borderRadius: "8px",
+            padding: "16px",
+            fontSize: "0.875rem",
+            overflow: "auto",
+            maxHeight: "300px",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "1.125rem",
+              fontWeight: "bold",
+              marginBottom: "8px",
+            }}
+          >
+            Console Output
+          </h2>
+          <pre style={{ whiteSpace: "pre-wrap" }}>{state.logs.join("\n")}</pre>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import Link from "next/link";
+import NetworkSelect from "./NetworkSelect";
 
 export default function Home() {
   return (
     <div style={{ padding: "24px", fontFamily: "monospace" }}>
       <h1>PSWAP Partial Fill Test</h1>
+      <NetworkSelect />
       <p style={{ marginTop: "16px" }}>
         <Link
           href="/partial"
@@ -18,6 +20,41 @@ export default function Home() {
         >
           Go to checker page →
         </Link>
+        <br />
+        <Link
+          href="/cancel"
+          style={{ color: "#3b82f6", textDecoration: "underline" }}
+        >
+          Go to cancel order page →
+        </Link>
+        <br />
+        <Link
+          href="/private"
+          style={{ color: "#3b82f6", textDecoration: "underline" }}
+        >
+          Go to private order page →
+        </Link>
+        <br />
+        <Link
+          href="/book"
+          style={{ color: "#3b82f6", textDecoration: "underline" }}
+        >
+          Go to order book →
+        </Link>
+        <br />
+        <Link
+          href="/lineage"
+          style={{ color: "#3b82f6", textDecoration: "underline" }}
+        >
+          Go to order lineage →
+        </Link>
+        <br />
+        <Link
+          href="/orders"
+          style={{ color: "#3b82f6", textDecoration: "underline" }}
+        >
+          Go to my orders →
+        </Link>
       </p>
     </div>
   );
@@ -7,17 +7,69 @@
  *
  * This test demonstrates:
  *   1. Maker creates PSWAP: 1000 GOLD for 1000 SILVER
- *   2. Taker fills 25%: sends 250 SILVER, receives 250 GOLD
+ *   2. Taker fills 25%: sends 250 SILVER, receives 250 GOLD (previewed first,
+ *      proven only once confirmed)
  *   3. Maker consumes P2ID: receives 250 SILVER
  *   4. Leftover SWAPP: 750 GOLD remains (still owned by maker)
  */
 
-import { useState, useCallback } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { AccountId } from "@demox-labs/miden-sdk";
+import {
+  assertNotExpired,
+  buildFillReceipt,
+  buildFillRequest,
+  classifyTransactionError,
+  createPswapOrder,
+  DEFAULT_SLIPPAGE_BPS,
+  describeFillDiff,
+  diffFillOutputs,
+  discoverPairOrders,
+  downloadNoteFile,
+  exportPswapOrder,
+  formatFillReceipt,
+  getExpiryStatus,
+  importPswapOrder,
+  isPswapExpiredFailure,
+  minTokensOutFor,
+  predictFillOutputs,
+  noteFileFromBase64,
+  planSweep,
+  resolveExpirationBlock,
+  TransactionFailure,
+  type PswapExpiration,
+  type SweepParams,
+} from "@/lib/pswap";
+import { getNetworkConfig } from "@/lib/network";
+import { getOrder, storeNewOrder, syncOrders, toStoredOrder } from "@/lib/orderStore";
+import {
+  commitTransaction,
+  describeTransactionEvent,
+  previewTransaction,
+  runTransaction,
+  type TransactionEvent,
+} from "@/lib/transaction";
+import {
+  waitForBlock,
+  waitForNote,
+  waitForTransaction,
+  WaitTimeoutError,
+} from "@/lib/wait";
+import { useWebClient } from "@/lib/webClient";
 
 const OFFERED_AMOUNT = BigInt(1000);
 const REQUESTED_AMOUNT = BigInt(1000);
 const FILL_AMOUNT = BigInt(250); // 25% fill
+const MIN_FILL_AMOUNT = BigInt(100); // smaller partial fills are rejected
+const SLIPPAGE_BPS = DEFAULT_SLIPPAGE_BPS;
+
+/** How long to wait for the SWAPP note to reach the taker before trying anyway */
+const SWAPP_VISIBILITY_TIMEOUT_MS = 30000;
+
+/** Check the expiration boundary only for orders expiring this soon after the test */
+const EXPIRY_CHECK_MAX_BLOCKS = 30;
+/** Generous upper bound of the time between blocks */
+const BLOCK_TIMEOUT_MS = 15000;
 
 type TestPhase =
   | "idle"
@@ -27,6 +79,7 @@ type TestPhase =
   | "mint-tokens"
   | "create-swapp"
   | "fill-swapp"
+  | "confirm-fill"
   | "consume-p2id"
   | "verify"
   | "done"
@@ -42,6 +95,28 @@ interface TestState {
   swappNoteId: string | null;
   p2idNoteId: string | null;
   leftoverNoteId: string | null;
+  /** Expiration settings for the order created in phase 5 */
+  expirationMode: PswapExpiration["kind"];
+  expirationValue: string;
+  /** Resolved input 9 of the order (0 = no expiration) */
+  expirationBlock: number;
+  syncHeight: number | null;
+  /** Create the order as a private note and hand it over as a NoteFile */
+  privateOrder: boolean;
+  /** Base64 NoteFile of the private order, for the download / copy panel */
+  orderFileBase64: string | null;
+}
+
+function toExpiration(mode: PswapExpiration["kind"], value: string): PswapExpiration {
+  const n = Number(value);
+  switch (mode) {
+    case "none":
+      return { kind: "none" };
+    case "relative":
+      return { kind: "relative", blocks: n };
+    case "absolute":
+      return { kind: "absolute", block: n };
+  }
 }
 
 export default function PartialFillTestPage() {
@@ -55,7 +130,23 @@ export default function PartialFillTestPage() {
     swappNoteId: null,
     p2idNoteId: null,
     leftoverNoteId: null,
+    expirationMode: "none",
+    expirationValue: "100",
+    expirationBlock: 0,
+    syncHeight: null,
+    privateOrder: false,
+    orderFileBase64: null,
   });
+  const { getClient, pause, resume, syncHeight: liveHeight } = useWebClient();
+
+  // Settles the fill confirmation the running test is waiting on
+  const confirmFill = useRef<((confirmed: boolean) => void) | null>(null);
+  const settleFill = useCallback((confirmed: boolean) => {
+    confirmFill.current?.(confirmed);
+    confirmFill.current = null;
+  }, []);
+  // Leaving the page discards a pending fill so the test can resume the loop
+  useEffect(() => () => settleFill(false), [settleFill]);
 
   const log = useCallback((message: string) => {
     console.log(message);
@@ -95,11 +186,26 @@ export default function PartialFillTestPage() {
     [log],
   );
 
+  const logTxEvent = useCallback(
+    (event: TransactionEvent) => log(describeTransactionEvent(event)),
+    [log],
+  );
+
+  const logWaitPoll = useCallback(
+    (attempt: number, elapsedMs: number) =>
+      log(`  Sync ${attempt}: not yet (${Math.round(elapsedMs / 1000)}s)`),
+    [log],
+  );
+
   /**
    * Run the complete PSWAP test flow
    */
-  const runTest = useCallback(async () => {
-    setState({
+  const runTest = useCallback(async (
+    expiration: PswapExpiration,
+    privateOrder: boolean,
+  ) => {
+    setState((prev) => ({
+      ...prev,
       phase: "init",
       logs: [],
       goldFaucetId: null,
@@ -109,8 +215,13 @@ export default function PartialFillTestPage() {
       swappNoteId: null,
       p2idNoteId: null,
       leftoverNoteId: null,
-    });
+      expirationBlock: 0,
+      syncHeight: null,
+      orderFileBase64: null,
+    }));
 
+    // The flow syncs itself; keep the background loop out of the way
+    await pause();
     try {
       log("============================================================");
       log("PSWAP PARTIAL FILL - COMPLETE FLOW TEST (WEBCLIENT)");
@@ -123,25 +234,9 @@ export default function PartialFillTestPage() {
       log("  4. Leftover SWAPP: 750 GOLD remains (still owned by maker)");
 
       // Import SDK
-      const {
-        WebClient,
-        AccountStorageMode,
-        NoteType,
-        Word,
-        Felt,
-        FungibleAsset,
-        Note,
-        NoteAssets,
-        NoteMetadata,
-        NoteRecipient,
-        NoteTag,
-        NoteExecutionHint,
-        NoteExecutionMode,
-        NoteInputs,
-        OutputNote,
-        TransactionRequestBuilder,
-        MidenArrays,
-      } = await import("@demox-labs/miden-sdk");
+      const { AccountStorageMode, NoteType } = await import(
+        "@demox-labs/miden-sdk"
+      );
 
       // =========================================================================
       // PHASE 1: Initialize Client
@@ -152,17 +247,17 @@ export default function PartialFillTestPage() {
       log("PHASE 1: INITIALIZE CLIENT");
       log("============================================================");
 
-      const rpcUrl =
-        process.env.NEXT_PUBLIC_MIDEN_NODE_URI ||
-        "https://rpc.testnet.miden.io:443";
-      log(`RPC URL: ${rpcUrl}`);
+      const network = getNetworkConfig();
+      log(`Network: ${network.label}`);
+      log(`RPC URL: ${network.rpcUrl}`);
 
-      const client = await WebClient.createClient(rpcUrl);
-      log("WebClient created");
+      const client = await getClient();
+      log("Using shared WebClient (background sync paused)");
 
       await client.syncState();
       const syncHeight = await client.getSyncHeight();
       log(`Synced to block: ${syncHeight}`);
+      setState((prev) => ({ ...prev, syncHeight }));
 
       // =========================================================================
       // PHASE 2: Create Faucets
@@ -177,32 +272,6 @@ export default function PartialFillTestPage() {
       const { AccountId } = await import("@demox-labs/miden-sdk");
       const toAccountId = (hex: string) => AccountId.fromHex(hex);
 
-      /**
-       * Build swap tag from asset pair (per Miden team feedback)
-       * Tag payload is constructed by taking asset tags (8 bits of each faucet ID prefix)
-       * and concatenating them: offered_asset_tag + requested_asset_tag.
-       */
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const buildSwapTag = (noteType: any, offeredFaucetId: any, requestedFaucetId: any) => {
-        const SWAP_USE_CASE_ID = 0;
-
-        // Get bits 56..63 (top 8 bits) from each faucet ID prefix
-        const offeredPrefix = offeredFaucetId.prefix().asInt();
-        const offeredTag = Number((offeredPrefix >> BigInt(56)) & BigInt(0xFF));
-
-        const requestedPrefix = requestedFaucetId.prefix().asInt();
-        const requestedTag = Number((requestedPrefix >> BigInt(56)) & BigInt(0xFF));
-
-        // Payload = offered_tag (high 8 bits) | requested_tag (low 8 bits)
-        const payload = (offeredTag << 8) | requestedTag;
-
-        if (noteType === NoteType.Public) {
-          return NoteTag.forPublicUseCase(SWAP_USE_CASE_ID, payload, NoteExecutionMode.newLocal());
-        } else {
-          return NoteTag.forLocalUseCase(SWAP_USE_CASE_ID, payload);
-        }
-      };
-
       // GOLD faucet (offered token)
       log("");
       log("Creating GOLD faucet...");
@@ -307,17 +376,11 @@ export default function PartialFillTestPage() {
         NoteType.Public,
         OFFERED_AMOUNT,
       );
-      const mintGoldResult = await client.executeTransaction(
-        goldFaucetId,
-        mintGoldReq,
-      );
-      const mintGoldProven = await client.proveTransaction(mintGoldResult);
-      const mintGoldHeight = await client.submitProvenTransaction(
-        mintGoldProven,
-        mintGoldResult,
-      );
-      await client.applyTransaction(mintGoldResult, mintGoldHeight);
-      log("  GOLD mint transaction submitted");
+      const mintGold = await runTransaction(client, goldFaucetId, mintGoldReq, {
+        label: "mint GOLD",
+        onEvent: logTxEvent,
+      });
+      log(`  GOLD mint transaction submitted (${mintGold.totalMs}ms)`);
 
       // Mint SILVER to taker
       log(`Minting ${FILL_AMOUNT} SILVER to Taker...`);
@@ -327,28 +390,30 @@ export default function PartialFillTestPage() {
         NoteType.Public,
         FILL_AMOUNT,
       );
-      const mintSilverResult = await client.executeTransaction(
+      const mintSilver = await runTransaction(
+        client,
         silverFaucetId,
         mintSilverReq,
+        { label: "mint SILVER", onEvent: logTxEvent },
       );
-      const mintSilverProven = await client.proveTransaction(mintSilverResult);
-      const mintSilverHeight = await client.submitProvenTransaction(
-        mintSilverProven,
-        mintSilverResult,
-      );
-      await client.applyTransaction(mintSilverResult, mintSilverHeight);
-      log("  SILVER mint transaction submitted");
+      log(`  SILVER mint transaction submitted (${mintSilver.totalMs}ms)`);
 
       // Wait for mints to commit
       log("");
-      log("Waiting for mints to commit (12s)...");
-      await new Promise((r) => setTimeout(r, 12000));
-      await client.syncState();
+      log("Waiting for mints to commit...");
+      for (const mint of [mintGold, mintSilver]) {
+        const block = await waitForTransaction(client, mint.transactionId, {
+          onPoll: logWaitPoll,
+        });
+        log(`  ${mint.transactionId} committed in block ${block}`);
+      }
 
       // Consume minted notes
       log("");
       log("--- Consuming Minted Notes ---");
 
+      const consumeTxIds: string[] = [];
+
       // Get consumable notes for maker
       const makerConsumable = await client.getConsumableNotes(toAccountId(makerIdHex));
       log(`  Maker has ${makerConsumable.length} consumable notes`);
@@ -359,17 +424,13 @@ export default function PartialFillTestPage() {
         );
         const makerConsumeReq =
           client.newConsumeTransactionRequest(makerNoteIds);
-        const makerConsumeResult = await client.executeTransaction(
-          toAccountId(makerIdHex),
+        const makerConsume = await runTransaction(
+          client,
+          makerIdHex,
           makerConsumeReq,
+          { label: "maker consume", onEvent: logTxEvent },
         );
-        const makerConsumeProven =
-          await client.proveTransaction(makerConsumeResult);
-        const makerConsumeHeight = await client.submitProvenTransaction(
-          makerConsumeProven,
-          makerConsumeResult,
-        );
-        await client.applyTransaction(makerConsumeResult, makerConsumeHeight);
+        consumeTxIds.push(makerConsume.transactionId);
         log("  Maker consumed mint note(s)");
       }
 
@@ -383,25 +444,25 @@ export default function PartialFillTestPage() {
         );
         const takerConsumeReq =
           client.newConsumeTransactionRequest(takerNoteIds);
-        const takerConsumeResult = await client.executeTransaction(
-          toAccountId(takerIdHex),
+        const takerConsume = await runTransaction(
+          client,
+          takerIdHex,
           takerConsumeReq,
+          { label: "taker consume", onEvent: logTxEvent },
         );
-        const takerConsumeProven =
-          await client.proveTransaction(takerConsumeResult);
-        const takerConsumeHeight = await client.submitProvenTransaction(
-          takerConsumeProven,
-          takerConsumeResult,
-        );
-        await client.applyTransaction(takerConsumeResult, takerConsumeHeight);
+        consumeTxIds.push(takerConsume.transactionId);
         log("  Taker consumed mint note(s)");
       }
 
       // Wait for consumption
       log("");
-      log("Waiting for consumption to commit (12s)...");
-      await new Promise((r) => setTimeout(r, 12000));
-      await client.syncState();
+      log("Waiting for consumption to commit...");
+      for (const txId of consumeTxIds) {
+        const block = await waitForTransaction(client, txId, {
+          onPoll: logWaitPoll,
+        });
+        log(`  ${txId} committed in block ${block}`);
+      }
 
       // =========================================================================
       // PHASE 5: Create PSWAP Note
@@ -415,16 +476,9 @@ export default function PartialFillTestPage() {
       log(
         `Offer: ${OFFERED_AMOUNT} GOLD for ${REQUESTED_AMOUNT} SILVER (1:1 ratio)`,
       );
+      log(`Visibility: ${privateOrder ? "PRIVATE (handed over as a NoteFile)" : "PUBLIC"}`);
 
-      // Import PSWAP script
-      const { PSWAP_MASM } = await import("@/lib/masm/pswap");
-      const builder = client.createScriptBuilder();
-      const noteScript = builder.compileNoteScript(PSWAP_MASM);
-
-      // Build offered asset (use fresh AccountId from hex)
-      const offeredAsset = new FungibleAsset(toAccountId(goldFaucetIdHex), OFFERED_AMOUNT);
-
-      // Build requested asset word [amount, 0, suffix, prefix]
+      // Build requested asset word [amount, 0, suffix, prefix] (for logging)
       const silverFaucetIdFresh = toAccountId(silverFaucetIdHex);
       const reqSuffix = silverFaucetIdFresh.suffix().asInt();
       const reqPrefix = silverFaucetIdFresh.prefix().asInt();
@@ -442,78 +496,51 @@ export default function PartialFillTestPage() {
         `  [3] prefix: ${reqPrefix} (0x${reqPrefix.toString(16).padStart(16, "0")})`,
       );
 
-      // Build note inputs (14 felts) - use fresh AccountId from hex
-      const makerIdFresh = toAccountId(makerIdHex);
-      // CRITICAL FIX: Use buildSwapTag from asset pair, NOT fromAccountId
-      // Per Miden team feedback: swap tags must encode offered/requested faucet prefixes
-      const swappTag = buildSwapTag(NoteType.Public, toAccountId(goldFaucetIdHex), toAccountId(silverFaucetIdHex));
-      const p2idTag = NoteTag.fromAccountId(makerIdFresh); // P2ID goes to maker, so this stays
-      const creatorPrefix = makerIdFresh.prefix().asInt();
-      const creatorSuffix = makerIdFresh.suffix().asInt();
-
-      const noteInputsArray = [
-        new Felt(REQUESTED_AMOUNT), // 0: requested_amount
-        new Felt(BigInt(0)), // 1: zero
-        new Felt(BigInt(reqSuffix)), // 2: faucet_suffix
-        new Felt(BigInt(reqPrefix)), // 3: faucet_prefix
-        new Felt(BigInt(swappTag.asU32())), // 4: swapp_tag
-        new Felt(BigInt(p2idTag.asU32())), // 5: p2id_tag
-        new Felt(BigInt(0)), // 6: empty
-        new Felt(BigInt(0)), // 7: empty
-        new Felt(BigInt(0)), // 8: swap_count
-        new Felt(BigInt(0)), // 9: expiration_block (0 = no expiration)
-        new Felt(BigInt(0)), // 10: empty
-        new Felt(BigInt(0)), // 11: empty
-        new Felt(BigInt(creatorPrefix)), // 12: creator_prefix
-        new Felt(BigInt(creatorSuffix)), // 13: creator_suffix
-      ];
+      // Resolve the expiration against the current sync height (input 9)
+      const createHeight = await client.getSyncHeight();
+      const expirationBlock = resolveExpirationBlock(expiration, createHeight);
+      setState((prev) => ({
+        ...prev,
+        expirationBlock,
+        syncHeight: createHeight,
+      }));
+      log("");
+      log(
+        expirationBlock === 0
+          ? "Expiration: none"
+          : `Expiration: block ${expirationBlock} (${expirationBlock - createHeight} blocks after ${createHeight})`,
+      );
+
+      // Build the PSWAP note (14 inputs, swap tag from asset pair, P2ID tag from maker)
+      const swappOrder = await createPswapOrder(client, {
+        maker: makerIdHex,
+        offered: { faucetId: goldFaucetIdHex, amount: OFFERED_AMOUNT },
+        requested: { faucetId: silverFaucetIdHex, amount: REQUESTED_AMOUNT },
+        expirationBlock,
+        minFillAmount: MIN_FILL_AMOUNT,
+        noteType: privateOrder ? NoteType.Private : NoteType.Public,
+      });
+      const { swappTag, p2idTag } = swappOrder;
+      const swappNoteId = swappOrder.noteId;
+      setState((prev) => ({ ...prev, swappNoteId }));
+
+      log("");
+      log(`Serial (random): [${swappOrder.serial.join(", ")}]`);
+      log(
+        `Minimum fill: ${swappOrder.inputs.minFillAmount} SILVER (or the whole remainder)`,
+      );
 
       log("");
-      log("=== ALL 14 NOTE INPUTS ===");
-      const inputNames = [
-        "requested_amount",
-        "zero",
-        "faucet_suffix",
-        "faucet_prefix",
-        "swapp_tag",
-        "p2id_tag",
-        "empty",
-        "empty",
-        "swap_count",
-        "expiration_block",
-        "empty",
-        "empty",
-        "creator_prefix",
-        "creator_suffix",
-      ];
-      for (let i = 0; i < noteInputsArray.length; i++) {
-        const val = noteInputsArray[i].asInt();
+      log(`=== ALL 14 NOTE INPUTS (${swappOrder.version.label}) ===`);
+      const { inputNames } = swappOrder.version.inputs;
+      const noteInputValues = swappOrder.note.recipient().inputs().values();
+      for (let i = 0; i < noteInputValues.length; i++) {
+        const val = noteInputValues[i].asInt();
         log(
           `  input[${i.toString().padStart(2)}] (${inputNames[i].padEnd(16)}): ${val.toString().padStart(20)} (0x${val.toString(16).padStart(16, "0")})`,
         );
       }
 
-      const noteInputs = new NoteInputs(
-        new MidenArrays.FeltArray(noteInputsArray),
-      );
-
-      // Build note components
-      const noteAssets = new NoteAssets([offeredAsset]);
-      const noteMetadata = new NoteMetadata(
-        makerIdFresh,
-        NoteType.Public,
-        swappTag,
-        NoteExecutionHint.always(),
-        new Felt(BigInt(0)),
-      );
-      const serialNum = new Word(
-        new BigUint64Array([BigInt(1), BigInt(2), BigInt(3), BigInt(4)]),
-      );
-      const recipient = new NoteRecipient(serialNum, noteScript, noteInputs);
-      const swappNote = new Note(noteAssets, noteMetadata, recipient);
-      const swappNoteId = swappNote.id().toString();
-      setState((prev) => ({ ...prev, swappNoteId }));
-
       // Log SWAPP tag details (CRITICAL FIX: now using buildSwapTag from asset pair)
       log("");
       log("=== SWAPP TAG (FIXED - using buildSwapTag from asset pair) ===");
@@ -530,23 +557,26 @@ export default function PartialFillTestPage() {
       log(`  Tag: ${swappTag.asU32()} (computed from asset pair, NOT fromAccountId)`);
 
       // Submit SWAPP creation
-      const outputNote = OutputNote.full(swappNote);
-      const swappTxReq = new TransactionRequestBuilder()
-        .withOwnOutputNotes(new MidenArrays.OutputNoteArray([outputNote]))
-        .build();
-
-      const swappTxResult = await client.executeTransaction(
-        toAccountId(makerIdHex),
-        swappTxReq,
+      log("");
+      const swappTx = await runTransaction(
+        client,
+        makerIdHex,
+        swappOrder.request,
+        { label: "create SWAPP", onEvent: logTxEvent },
       );
-      const swappTxProven = await client.proveTransaction(swappTxResult);
-      const swappTxHeight = await client.submitProvenTransaction(
-        swappTxProven,
-        swappTxResult,
+      log(`  SWAPP transaction submitted: ${swappTx.transactionId}`);
+
+      // Persist the order (serial, inputs, script root) so it can be tracked
+      // and reclaimed after this tab is closed
+      await storeNewOrder(
+        client,
+        toStoredOrder(
+          swappOrder,
+          makerIdHex,
+          privateOrder ? "private" : "public",
+        ),
       );
-      await client.applyTransaction(swappTxResult, swappTxHeight);
-      log("");
-      log("  SWAPP transaction submitted");
+      log("  Order saved to My Orders");
 
       // Register tags so other accounts can discover the note (mirrors Rust add_note_tag).
       // The JS client expects hex strings; use padded hex and swallow failures.
@@ -562,23 +592,60 @@ export default function PartialFillTestPage() {
         log(`  WARNING: tag registration failed: ${e}`);
       }
 
-      // Wait for note to become consumable (polling up to 5 times)
+      // Private orders never reach the taker through sync: the maker exports a
+      // NoteFile and the taker imports it
+      if (privateOrder) {
+        log("");
+        log("--- Handing over private order as a NoteFile ---");
+        const orderFile = await exportPswapOrder(client, swappNoteId);
+        setState((prev) => ({ ...prev, orderFileBase64: orderFile.base64 }));
+        log(`  Exported ${orderFile.exportType} NoteFile (${orderFile.bytes.length} bytes)`);
+        const importedId = await importPswapOrder(client, orderFile.base64);
+        log(`  Taker imported note: ${importedId}`);
+        log("  Note: the P2ID and leftover notes a fill creates are always public");
+      }
+
+      // Wait for note to become consumable
       log("");
-      log("--- Waiting for SWAPP note to be consumable (polling up to 5 times) ---");
-      let swappConsumableForTaker = false;
-      for (let i = 0; i < 5; i++) {
-        await client.syncState();
-        const notesForTaker = await client.getConsumableNotes(toAccountId(takerIdHex));
-        if (notesForTaker.some((n) => n.inputNoteRecord().id().toString() === swappNoteId)) {
-          swappConsumableForTaker = true;
-          log(`  SWAPP consumable by taker after ${i + 1} poll(s)`);
-          break;
-        }
-        log(`  Poll ${i + 1}: not yet consumable; waiting 3s...`);
-        await new Promise((r) => setTimeout(r, 3000));
+      log("--- Waiting for SWAPP note to be consumable by taker ---");
+      try {
+        await waitForNote(client, swappNoteId, {
+          consumableBy: takerIdHex,
+          timeoutMs: SWAPP_VISIBILITY_TIMEOUT_MS,
+          onPoll: logWaitPoll,
+        });
+        log("  SWAPP consumable by taker");
+      } catch (error) {
+        if (!(error instanceof WaitTimeoutError)) throw error;
+        log(`  WARNING: ${error.message}; will try authenticated input anyway`);
       }
-      if (!swappConsumableForTaker) {
-        log("  WARNING: SWAPP never became consumable for taker; will try authenticated input anyway");
+
+      // A sweep by the maker must not pick their own order: consuming it runs
+      // the reclaim path, so none of the planned fill outputs would appear
+      if (!privateOrder) {
+        log("");
+        log("--- Sweep planning skips the maker's own order ---");
+        const { orders, syncHeight: bookHeight } = await discoverPairOrders(
+          client,
+          goldFaucetIdHex,
+          silverFaucetIdHex,
+        );
+        const sweepParams: SweepParams = {
+          baseFaucetId: goldFaucetIdHex,
+          quoteFaucetId: silverFaucetIdHex,
+          side: "buy",
+          targetAmount: FILL_AMOUNT,
+          priceLimit: Number.MAX_VALUE,
+        };
+        const makerPlan = await planSweep(orders, sweepParams, bookHeight, makerIdHex);
+        if (makerPlan.legs.some((leg) => leg.entry.noteId === swappNoteId)) {
+          throw new Error("maker's sweep plan includes the maker's own order");
+        }
+        log(`  Maker's sweep plan: ${makerPlan.legs.length} order(s), own order skipped`);
+        const takerPlan = await planSweep(orders, sweepParams, bookHeight, takerIdHex);
+        log(
+          `  Taker's sweep plan: ${takerPlan.legs.length} order(s), ${takerPlan.legs.some((leg) => leg.entry.noteId === swappNoteId) ? "includes" : "does not include"} the order`,
+        );
       }
 
       // =========================================================================
@@ -590,29 +657,61 @@ export default function PartialFillTestPage() {
       log("PHASE 6: TAKER FILLS 25%");
       log("============================================================");
 
-      const takerReceives = (FILL_AMOUNT * OFFERED_AMOUNT) / REQUESTED_AMOUNT;
-      const leftoverOffered = OFFERED_AMOUNT - takerReceives;
-      const leftoverRequested = REQUESTED_AMOUNT - FILL_AMOUNT;
+      // Derive both output notes exactly as execute_SWAPp will create them
+      const fillPrediction = await predictFillOutputs(
+        swappOrder.note,
+        FILL_AMOUNT,
+        swappOrder.version,
+      );
+      const { takerReceives } = fillPrediction;
+      const leftoverOffered = fillPrediction.leftover?.amount ?? BigInt(0);
+      const leftoverRequested =
+        fillPrediction.leftover?.requestedAmount ?? BigInt(0);
 
       log("");
       log("Fill calculation:");
       log(`  Fill amount:        ${FILL_AMOUNT} SILVER (taker sends)`);
       log(`  Taker receives:     ${takerReceives} GOLD`);
+      log(
+        `  Rounding loss:      ${fillPrediction.quote.roundingLoss} GOLD vs ideal ratio (${fillPrediction.quote.branch} branch)`,
+      );
       log(`  Leftover offered:   ${leftoverOffered} GOLD (in new SWAPP)`);
       log(`  Leftover requested: ${leftoverRequested} SILVER (in new SWAPP)`);
-
-      // Note args: [0, 0, 0, fill_amount] – MASM reads top of stack, which is index 3
-      const noteArgs = new Word(
-        new BigUint64Array([BigInt(0), BigInt(0), BigInt(0), FILL_AMOUNT]),
+      const minTokensOut = minTokensOutFor(fillPrediction, SLIPPAGE_BPS);
+      log(
+        `  Minimum receive:    ${minTokensOut === null ? "not enforced by this script" : `${minTokensOut} GOLD (${SLIPPAGE_BPS} bps slippage)`}`,
       );
 
+      // Note args: [0, 0, min_tokens_a_out, fill_amount] – MASM reads top of stack, which is index 3
       log("");
       log("=== NOTE ARGS ===");
       log(`  [0]: 0`);
       log(`  [1]: 0`);
-      log(`  [2]: 0`);
+      log(`  [2]: ${minTokensOut ?? 0} (min_tokens_a_out)`);
       log(`  [3]: ${FILL_AMOUNT} (fill_amount)`);
 
+      // The SDK takes ownership of what a request is built from; the
+      // prediction must still be usable after building one (the preview diff
+      // and the receipt read its notes)
+      log("");
+      log("--- Prediction survives building requests ---");
+      const repeated = await predictFillOutputs(
+        swappOrder.note,
+        FILL_AMOUNT,
+        swappOrder.version,
+      );
+      if (
+        repeated.p2id.noteId !== fillPrediction.p2id.noteId ||
+        repeated.leftover?.noteId !== fillPrediction.leftover?.noteId
+      ) {
+        throw new Error("predicting the same fill twice gave different notes");
+      }
+      await buildFillRequest(repeated, { slippageBps: SLIPPAGE_BPS });
+      await buildFillRequest(repeated, { slippageBps: SLIPPAGE_BPS });
+      log(
+        `  Two requests built; P2ID recipient still ${repeated.p2id.recipient.digest().toHex()}`,
+      );
+
       // KEY DIFFERENCE: Rust uses authenticated_input_notes
       // Let's try BOTH approaches to see which works
 
@@ -678,9 +777,6 @@ export default function PartialFillTestPage() {
         }
       }
 
-      const sdk = await import("@demox-labs/miden-sdk");
-      const { NoteId, NoteIdAndArgs, NoteIdAndArgsArray } = sdk as any;
-
       await client.syncState();
 
       // DEBUG: Final balance check before fill
@@ -726,158 +822,111 @@ export default function PartialFillTestPage() {
         log("  *** WARNING: SWAPP note NOT found in store via getInputNote ***");
       }
 
-      const noteIdObj = NoteId.fromHex(swappNoteIdHex);
-      const noteIdAndArgs = new NoteIdAndArgs(noteIdObj, noteArgs);
-
       log("");
       log("--- Building fill transaction with expected future notes ---");
-      log(`  Note args (fill amount): [0, 0, 0, ${FILL_AMOUNT}]`);
+      log(
+        `  Note args (min out, fill amount): [0, 0, ${minTokensOut ?? 0}, ${FILL_AMOUNT}]`,
+      );
       log(`  Using withAuthenticatedInputNotes with note ID: ${swappNoteIdHex}`);
 
       // Per Philipp's feedback: fill transaction needs withExpectedFutureNotes
       // For partial fill, PSWAP creates:
       // 1. P2ID note to maker (fill_amount of SILVER)
       // 2. Leftover SWAPP note (remaining GOLD)
-
-      // Import additional types for expected future notes (NoteRecipient already imported above)
-      const {
-        NoteDetails,
-        NoteDetailsAndTag,
-        NoteDetailsAndTagArray,
-        NoteRecipientArray,
-      } = sdk as any;
-
-      // Use the already-calculated leftover amounts from above
       log(`  Expected P2ID: ${FILL_AMOUNT} SILVER to maker`);
-      log(`  Expected leftover SWAPP: ${leftoverOffered} GOLD for ${leftoverRequested} SILVER`);
-
-      // KEY FIX #2: Build BOTH expected notes with EXACT serial numbers (like Rust)
-
-      // Import Rpo256 and NoteScript for proper computation
-      const { Rpo256, NoteScript } = sdk as any;
-
-      // Original swap serial number (must match what we used when creating the SWAPP)
-      const swapSerialFelts = [new Felt(BigInt(1)), new Felt(BigInt(2)), new Felt(BigInt(3)), new Felt(BigInt(4))];
-      const nextSwapCount = BigInt(1); // After this fill, swap_count becomes 1
-
-      // Compute P2ID serial: hmerge(swap_serial, [swap_count, 0, 0, 0])
-      // hmerge = Rpo256.hashElements([...word1, ...word2])
-      const swapCountFelts = [new Felt(nextSwapCount), new Felt(BigInt(0)), new Felt(BigInt(0)), new Felt(BigInt(0))];
-      const p2idSerialWord = Rpo256.hashElements(new MidenArrays.FeltArray([...swapSerialFelts, ...swapCountFelts]));
-      log(`  Computed P2ID serial via hmerge(swap_serial, [swap_count, 0, 0, 0])`);
-
-      // Build P2ID recipient (matches Rust's build_p2id_recipient):
-      // NoteRecipient::new(serial_num, p2id_script, [target.suffix(), target.prefix()])
-      const p2idMakerId = toAccountId(makerIdHex);
-      const p2idScript = NoteScript.p2id();
-      const p2idNoteInputs = new NoteInputs(new MidenArrays.FeltArray([
-        new Felt(p2idMakerId.suffix().asInt()),  // target.suffix() first
-        new Felt(p2idMakerId.prefix().asInt()),  // target.prefix() second
-      ]));
-      const p2idRecipient = new NoteRecipient(p2idSerialWord, p2idScript, p2idNoteInputs);
-
-      // Build P2ID note assets and tag
-      const p2idSilverAsset = new FungibleAsset(toAccountId(silverFaucetIdHex), FILL_AMOUNT);
-      const p2idNoteAssets = new NoteAssets([p2idSilverAsset]);
-      const p2idNoteTag = NoteTag.fromAccountId(p2idMakerId);
-
-      const p2idNoteDetails = new NoteDetails(p2idNoteAssets, p2idRecipient);
-      const p2idDetailsAndTag = new NoteDetailsAndTag(p2idNoteDetails, p2idNoteTag);
-      log(`  Built expected P2ID note with computed serial`);
-
-      // Build expected leftover SWAPP note details
-      // Assets: leftover GOLD
-      const leftoverGoldAsset = new FungibleAsset(toAccountId(goldFaucetIdHex), leftoverOffered);
-      const leftoverNoteAssets = new NoteAssets([leftoverGoldAsset]);
-
-      // The leftover SWAPP will have the same tag (computed from asset pair)
-      // and same script, but updated inputs
-      const leftoverSwappTag = buildSwapTag(NoteType.Public, toAccountId(goldFaucetIdHex), toAccountId(silverFaucetIdHex));
-
-      // Build the leftover note inputs (updated with remaining amounts)
-      const leftoverSilverFaucetId = toAccountId(silverFaucetIdHex);
-      const leftoverReqSuffix = leftoverSilverFaucetId.suffix().asInt();
-      const leftoverReqPrefix = leftoverSilverFaucetId.prefix().asInt();
-      const leftoverMakerId = toAccountId(makerIdHex);
-      const leftoverCreatorPrefix = leftoverMakerId.prefix().asInt();
-      const leftoverCreatorSuffix = leftoverMakerId.suffix().asInt();
-
-      const leftoverInputsArray = [
-        new Felt(leftoverRequested), // 0: remaining requested_amount (750)
-        new Felt(BigInt(0)), // 1: zero
-        new Felt(BigInt(leftoverReqSuffix)), // 2: faucet_suffix
-        new Felt(BigInt(leftoverReqPrefix)), // 3: faucet_prefix
-        new Felt(BigInt(leftoverSwappTag.asU32())), // 4: swapp_tag
-        new Felt(BigInt(p2idTag.asU32())), // 5: p2id_tag
-        new Felt(BigInt(0)), // 6: empty
-        new Felt(BigInt(0)), // 7: empty
-        new Felt(BigInt(1)), // 8: swap_count (incremented)
-        new Felt(BigInt(0)), // 9: expiration_block
-        new Felt(BigInt(0)), // 10: empty
-        new Felt(BigInt(0)), // 11: empty
-        new Felt(BigInt(leftoverCreatorPrefix)), // 12: creator_prefix
-        new Felt(BigInt(leftoverCreatorSuffix)), // 13: creator_suffix
-      ];
-
-      const leftoverNoteInputs = new NoteInputs(
-        new MidenArrays.FeltArray(leftoverInputsArray),
-      );
-
-      // Get the PSWAP script (same as original)
-      const leftoverNoteScript = builder.compileNoteScript(PSWAP_MASM);
-
-      // Serial number for leftover = original with last element + 1 (as per Rust code)
-      // Original was [1, 2, 3, 4], so leftover is [1, 2, 3, 5]
-      const leftoverSerialNum = new Word(
-        new BigUint64Array([BigInt(1), BigInt(2), BigInt(3), BigInt(5)]),
+      log(`    Note ID: ${fillPrediction.p2id.noteId}`);
+      log(
+        `    Serial:  hmerge(swap_serial, [swap_count, expiration, 0, 0]) with swap_count = ${fillPrediction.swapCount}`,
       );
+      if (fillPrediction.leftover) {
+        log(
+          `  Expected leftover SWAPP: ${leftoverOffered} GOLD for ${leftoverRequested} SILVER`,
+        );
+        log(`    Note ID: ${fillPrediction.leftover.noteId}`);
+        log(`    Serial:  [${fillPrediction.leftover.serial.join(", ")}]`);
+        log(
+          `    Expiration: ${fillPrediction.leftover.expirationBlock || "none"} (inherited)`,
+        );
+      }
+      setState((prev) => ({
+        ...prev,
+        p2idNoteId: fillPrediction.p2id.noteId,
+        leftoverNoteId: fillPrediction.leftover?.noteId ?? null,
+      }));
 
-      // Build recipient for leftover SWAPP
-      const leftoverRecipient = new NoteRecipient(leftoverSerialNum, leftoverNoteScript, leftoverNoteInputs);
-
-      // Create NoteDetails for expected leftover SWAPP
-      const leftoverNoteDetails = new NoteDetails(leftoverNoteAssets, leftoverRecipient);
-      const leftoverDetailsAndTag = new NoteDetailsAndTag(leftoverNoteDetails, leftoverSwappTag);
-
-      log(`  Built expected future note details for leftover SWAPP`);
+      // Authenticated SWAPP input + both expected notes and recipients (like Rust)
+      const fillTxReq = await buildFillRequest(fillPrediction, {
+        slippageBps: SLIPPAGE_BPS,
+      });
 
-      // KEY FIX #3: Both recipients via withExpectedOutputRecipients (like Rust)
-      // The PSWAP script creates two output notes:
-      // 1. P2ID note to maker (with fill_amount SILVER)
-      // 2. Leftover SWAPP note (with remaining GOLD)
+      // Only the creator may consume an expired note; fail before proving
+      const fillHeight = await client.getSyncHeight();
+      setState((prev) => ({ ...prev, syncHeight: fillHeight }));
+      assertNotExpired(swappOrder.inputs, fillHeight, swappOrder.version);
 
-      const expectedRecipients = new NoteRecipientArray([
-        p2idRecipient,      // P2ID recipient (maker gets SILVER)
-        leftoverRecipient,  // Leftover SWAPP recipient
-      ]);
+      log("");
+      log("--- Executing Fill Transaction (preview, not proven yet) ---");
 
-      log(`  Built expected output recipients (P2ID + leftover SWAPP)`);
+      let fillPreview;
+      try {
+        fillPreview = await previewTransaction(client, takerIdHex, fillTxReq, {
+          label: "fill SWAPP",
+          onEvent: logTxEvent,
+        });
+      } catch (error) {
+        throw (
+          classifyTransactionError(error, {
+            accountId: takerIdHex,
+            expirationBlock: swappOrder.inputs.expirationBlock,
+            currentBlock: fillHeight,
+            fillAmount: FILL_AMOUNT,
+            minTokensOut: minTokensOut ?? undefined,
+            minFillAmount: MIN_FILL_AMOUNT,
+          }) ?? error
+        );
+      }
+      for (const change of fillPreview.vaultDelta) {
+        log(`  Taker vault delta: ${change.amount} of ${change.faucetId}`);
+      }
+      const fillDiff = diffFillOutputs(fillPrediction, fillPreview.outputNotes);
+      for (const line of describeFillDiff(fillDiff)) log(`  ${line}`);
+      if (!fillDiff.ok) {
+        throw new Error("fill outputs differ from the prediction; not proving");
+      }
 
-      // Build the fill transaction with ALL of Philipp's requirements:
-      // 1. withAuthenticatedInputNotes - the SWAPP note being consumed
-      // 2. withExpectedFutureNotes - BOTH P2ID and leftover (like Rust)
-      // 3. withExpectedOutputRecipients - BOTH recipients (like Rust)
-      const fillTxReq = new TransactionRequestBuilder()
-        .withAuthenticatedInputNotes(new NoteIdAndArgsArray([noteIdAndArgs]))
-        .withExpectedFutureNotes(new NoteDetailsAndTagArray([p2idDetailsAndTag, leftoverDetailsAndTag]))
-        .withExpectedOutputRecipients(expectedRecipients)
-        .build();
+      log("");
+      log("Fill previewed; confirm to prove and submit it");
+      setPhase("confirm-fill");
+      const confirmed = await new Promise<boolean>((resolve) => {
+        confirmFill.current = resolve;
+      });
+      if (!confirmed) {
+        throw new Error("fill discarded before proving");
+      }
+      setPhase("fill-swapp");
 
       log("");
-      log("--- Submitting Fill Transaction via submitNewTransaction ---");
-      log("  (Per Philipp's feedback: use submitNewTransaction instead of manual execute/prove/submit)");
+      log("--- Proving and Submitting Fill Transaction ---");
+      const fillTx = await commitTransaction(client, fillPreview, {
+        onEvent: logTxEvent,
+      });
+      log(`  Transaction ID: ${fillTx.transactionId}`);
 
-      // Use submitNewTransaction as Philipp recommended
-      // This handles execute + prove + submit internally and returns TransactionId
-      const fillTxId = await client.submitNewTransaction(toAccountId(takerIdHex), fillTxReq);
-      log(`  Transaction submitted via submitNewTransaction`);
-      log(`  Transaction ID: ${fillTxId.toHex()}`);
+      // The submitted outputs, not the preview's, are what the maker receives
+      log("");
+      const fillReceipt = buildFillReceipt(fillPrediction, fillTx);
+      for (const line of formatFillReceipt(fillReceipt)) log(`  ${line}`);
+      if (!fillReceipt.diff.ok) {
+        log("  WARNING: the maker's P2ID or the leftover will not be where expected");
+      }
 
       // Wait for transaction to commit
       log("");
-      log("Waiting for fill transaction to commit (12s)...");
-      await new Promise((r) => setTimeout(r, 12000));
-      await client.syncState();
+      log("Waiting for fill transaction to commit...");
+      const fillBlock = await waitForTransaction(client, fillTx.transactionId, {
+        onPoll: logWaitPoll,
+      });
+      log(`  Fill committed in block ${fillBlock}`);
 
       // Check taker's balance after fill to verify it worked
       log("");
@@ -902,9 +951,18 @@ export default function PartialFillTestPage() {
 
       // Wait for P2ID to become consumable
       log("");
-      log("Waiting for P2ID note to be consumable (12s)...");
-      await new Promise((r) => setTimeout(r, 12000));
-      await client.syncState();
+      log("Waiting for P2ID note to be consumable...");
+      await waitForNote(client, fillPrediction.p2id.noteId, {
+        consumableBy: makerIdHex,
+        onPoll: logWaitPoll,
+      });
+      await syncOrders(client);
+      const storedOrder = await getOrder(swappNoteId);
+      if (storedOrder) {
+        log(
+          `  Stored order: ${storedOrder.status}, ${storedOrder.fillCount} fill(s), live note ${storedOrder.liveNoteId ?? "none"}`,
+        );
+      }
 
       // Get P2ID note for maker
       const makerP2idNotes = await client.getConsumableNotes(toAccountId(makerIdHex));
@@ -917,17 +975,10 @@ export default function PartialFillTestPage() {
         );
         log(`  Consuming P2ID notes: ${p2idNoteIds.join(", ")}`);
         const p2idConsumeReq = client.newConsumeTransactionRequest(p2idNoteIds);
-        const p2idConsumeResult = await client.executeTransaction(
-          toAccountId(makerIdHex),
-          p2idConsumeReq,
-        );
-        const p2idConsumeProven =
-          await client.proveTransaction(p2idConsumeResult);
-        const p2idConsumeHeight = await client.submitProvenTransaction(
-          p2idConsumeProven,
-          p2idConsumeResult,
-        );
-        await client.applyTransaction(p2idConsumeResult, p2idConsumeHeight);
+        await runTransaction(client, makerIdHex, p2idConsumeReq, {
+          label: "consume P2ID",
+          onEvent: logTxEvent,
+        });
         log("  Maker consumed P2ID note(s)");
       } else {
         log("  WARNING: No P2ID notes found for maker");
@@ -968,6 +1019,48 @@ export default function PartialFillTestPage() {
         }
       }
 
+      // The fill above ran before the expiration block; from that block on the
+      // leftover must reject takers. Previewed only, nothing is proven.
+      const { leftover } = fillPrediction;
+      if (expirationBlock !== 0 && leftover) {
+        log("");
+        log("--- Expiration boundary ---");
+        const height = await client.getSyncHeight();
+        if (expirationBlock - height > EXPIRY_CHECK_MAX_BLOCKS) {
+          log(
+            `  Skipped: block ${expirationBlock} is more than ${EXPIRY_CHECK_MAX_BLOCKS} blocks away (current ${height})`,
+          );
+        } else {
+          await waitForNote(client, leftover.noteId, { onPoll: logWaitPoll });
+          log(`  Waiting for expiration block ${expirationBlock}...`);
+          const expiredHeight = await waitForBlock(client, expirationBlock, {
+            timeoutMs: (expirationBlock - height + 1) * BLOCK_TIMEOUT_MS,
+            onPoll: logWaitPoll,
+          });
+          const lateFill = await predictFillOutputs(
+            leftover.details,
+            MIN_FILL_AMOUNT,
+            swappOrder.version,
+          );
+          try {
+            await previewTransaction(
+              client,
+              takerIdHex,
+              await buildFillRequest(lateFill),
+              { label: "fill at expiration" },
+            );
+            throw new Error(
+              `taker fill at block ${expiredHeight} passed the expiration check (expires at ${expirationBlock})`,
+            );
+          } catch (error) {
+            if (!isPswapExpiredFailure(error)) throw error;
+          }
+          log(
+            `  Taker fill at block ${expiredHeight} rejected with ERR_PSWAP_EXPIRED`,
+          );
+        }
+      }
+
       setPhase("done");
       log("");
       log("============================================================");
@@ -979,16 +1072,40 @@ export default function PartialFillTestPage() {
       log("============================================================");
       log("ERROR");
       log("============================================================");
-      log(`${error}`);
-      if (error instanceof Error && error.stack) {
-        log(error.stack);
+      if (error instanceof TransactionFailure) {
+        log(error.explanation);
+        log(`Fix: ${error.fix}`);
+      } else {
+        log(`${error}`);
+        if (error instanceof Error && error.stack) {
+          log(error.stack);
+        }
       }
       console.error("Test error:", error);
+    } finally {
+      resume();
     }
-  }, [log, logPrefixSuffix, setPhase]);
+  }, [
+    getClient,
+    log,
+    logPrefixSuffix,
+    logTxEvent,
+    logWaitPoll,
+    pause,
+    resume,
+    setPhase,
+  ]);
 
   const isRunning = state.phase !== "idle" && state.phase !== "done" && state.phase !== "error";
 
+  // Once the test has finished the provider's background sync keeps the
+  // expiration countdown live
+  const syncHeight = isRunning ? state.syncHeight : (liveHeight ?? state.syncHeight);
+  const expiry =
+    syncHeight === null
+      ? null
+      : getExpiryStatus(state.expirationBlock, syncHeight);
+
   return (
     <div style={{ minHeight: "100vh", backgroundColor: "#000", color: "#fff", padding: "24px", fontFamily: "monospace" }}>
       <div style={{ maxWidth: "896px", margin: "0 auto" }}>
@@ -999,9 +1116,57 @@ export default function PartialFillTestPage() {
           Tests partial swap note consumption with the WebClient SDK
         </p>
 
+        <div style={{ display: "flex", gap: "8px", marginBottom: "16px", alignItems: "center" }}>
+          <span style={{ color: "#6b7280" }}>Order expires:</span>
+          <select
+            value={state.expirationMode}
+            onChange={(e) =>
+              setState((prev) => ({
+                ...prev,
+                expirationMode: e.target.value as PswapExpiration["kind"],
+              }))
+            }
+            disabled={isRunning}
+            style={{ padding: "4px", backgroundColor: "#111827", color: "#fff", border: "1px solid #374151", borderRadius: "4px", fontFamily: "monospace" }}
+          >
+            <option value="none">never</option>
+            <option value="relative">in N blocks</option>
+            <option value="absolute">at block</option>
+          </select>
+          {state.expirationMode !== "none" && (
+            <input
+              type="number"
+              min={1}
+              value={state.expirationValue}
+              onChange={(e) =>
+                setState((prev) => ({ ...prev, expirationValue: e.target.value }))
+              }
+              disabled={isRunning}
+              style={{ width: "120px", padding: "4px", backgroundColor: "#111827", color: "#fff", border: "1px solid #374151", borderRadius: "4px", fontFamily: "monospace" }}
+            />
+          )}
+        </div>
+
+        <label style={{ display: "flex", gap: "8px", marginBottom: "16px", alignItems: "center", color: "#9ca3af" }}>
+          <input
+            type="checkbox"
+            checked={state.privateOrder}
+            onChange={(e) =>
+              setState((prev) => ({ ...prev, privateOrder: e.target.checked }))
+            }
+            disabled={isRunning}
+          />
+          Private order (export / import as NoteFile instead of broadcasting)
+        </label>
+
         <div style={{ display: "flex", gap: "16px", marginBottom: "24px", alignItems: "center" }}>
           <button
-            onClick={runTest}
+            onClick={() =>
+              runTest(
+                toExpiration(state.expirationMode, state.expirationValue),
+                state.privateOrder,
+              )
+            }
             disabled={isRunning}
             style={{
               padding: "8px 16px",
@@ -1022,6 +1187,23 @@ export default function PartialFillTestPage() {
                   : "Running..."}
           </button>
 
+          {state.phase === "confirm-fill" && (
+            <>
+              <button
+                onClick={() => settleFill(true)}
+                style={{ padding: "8px 16px", backgroundColor: "#22c55e", color: "#fff", border: "none", borderRadius: "4px", cursor: "pointer", fontFamily: "monospace" }}
+              >
+                Prove &amp; Submit
+              </button>
+              <button
+                onClick={() => settleFill(false)}
+                style={{ padding: "8px 16px", backgroundColor: "#374151", color: "#fff", border: "none", borderRadius: "4px", cursor: "pointer", fontFamily: "monospace" }}
+              >
+                Discard
+              </button>
+            </>
+          )}
+
           <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
             <span style={{ color: "#6b7280" }}>Phase:</span>
             <span
@@ -1050,6 +1232,41 @@ export default function PartialFillTestPage() {
             {state.leftoverNoteId && (
               <div>Leftover Note: {state.leftoverNoteId}</div>
             )}
+            {state.swappNoteId && expiry && (
+              <div style={{ color: expiry.expired ? "#ef4444" : undefined }}>
+                Expiration:{" "}
+                {!expiry.expires
+                  ? "never"
+                  : expiry.expired
+                    ? `EXPIRED at block ${expiry.expirationBlock} (current ${syncHeight})`
+                    : `block ${expiry.expirationBlock}, ${expiry.blocksRemaining} blocks remaining (current ${syncHeight})`}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Private order NoteFile */}
+        {state.orderFileBase64 && (
+          <div style={{ marginBottom: "24px", padding: "16px", backgroundColor: "#111827", borderRadius: "8px", fontFamily: "monospace", fontSize: "0.875rem" }}>
+            <h2 style={{ fontSize: "1.125rem", fontWeight: "bold", marginBottom: "8px" }}>Private Order NoteFile</h2>
+            <textarea
+              readOnly
+              value={state.orderFileBase64}
+              rows={4}
+              onFocus={(e) => e.target.select()}
+              style={{ width: "100%", marginBottom: "8px", padding: "8px", backgroundColor: "#000", color: "#fff", border: "1px solid #374151", borderRadius: "4px", fontFamily: "monospace", fontSize: "0.75rem" }}
+            />
+            <button
+              onClick={() =>
+                downloadNoteFile(
+                  noteFileFromBase64(state.orderFileBase64 ?? ""),
+                  `pswap-${state.swappNoteId?.slice(0, 18)}.mno`,
+                )
+              }
+              style={{ padding: "8px 16px", backgroundColor: "#3b82f6", color: "#fff", border: "none", borderRadius: "4px", cursor: "pointer", fontFamily: "monospace" }}
+            >
+              Download .mno
+            </button>
           </div>
         )}
 
@@ -0,0 +1,565 @@
+"use client";
+
+/**
+ * Private Order Handoff Page
+ *
+ * OTC flow for private PSWAP orders, which are never broadcast: the maker
+ * exports the order as a NoteFile (download or base64 text) and sends it to a
+ * single counterparty, who imports it here and fills it. A fill is executed
+ * first as a preview (vault delta, output notes, diff against the predicted
+ * notes) and only proven and submitted once the taker confirms.
+ */
+
+import { useCallback, useState } from "react";
+import {
+  assertNotExpired,
+  buildFillReceipt,
+  buildFillRequest,
+  DEFAULT_SLIPPAGE_BPS,
+  describeTransactionError,
+  diffFillOutputs,
+  downloadNoteFile,
+  exportPswapOrder,
+  formatFillReceipt,
+  importPswapOrder,
+  inspectPswapNote,
+  loadPswapScriptRegistry,
+  minTokensOutFor,
+  noteFileToBase64,
+  predictFillOutputs,
+  readPswapNote,
+  resolvePswapVersion,
+  type ExportedPswapOrder,
+  type FillOutputDiff,
+  type FillPrediction,
+  type PswapNoteInspection,
+} from "@/lib/pswap";
+import {
+  commitTransaction,
+  describeTransactionEvent,
+  previewTransaction,
+  type TransactionPreview,
+} from "@/lib/transaction";
+import { useWebClient } from "@/lib/webClient";
+import FillPreviewPanel from "../FillPreviewPanel";
+
+type HandoffPhase = "idle" | "working" | "done" | "error";
+
+interface HandoffState {
+  logs: string[];
+  phase: HandoffPhase;
+  /** Maker side */
+  exportNoteId: string;
+  exported: ExportedPswapOrder | null;
+  /** Taker side */
+  importText: string;
+  takerId: string;
+  fillAmount: string;
+  /** Tolerated payout shortfall vs. the prediction, in basis points */
+  slippageBps: string;
+  imported: PswapNoteInspection | null;
+  /** Executed but unproven fill awaiting confirmation */
+  fillPreview: FillPreview | null;
+}
+
+interface FillPreview {
+  prediction: FillPrediction;
+  /** min_tokens_a_out in the note args, null if the script ignores it */
+  minTokensOut: bigint | null;
+  tx: TransactionPreview;
+  diff: FillOutputDiff;
+}
+
+export default function PrivateOrderPage() {
+  const [state, setState] = useState<HandoffState>({
+    logs: [],
+    phase: "idle",
+    exportNoteId: "",
+    exported: null,
+    importText: "",
+    takerId: "",
+    fillAmount: "",
+    slippageBps: DEFAULT_SLIPPAGE_BPS.toString(),
+    imported: null,
+    fillPreview: null,
+  });
+
+  const { withClient } = useWebClient();
+
+  const log = useCallback((message: string) => {
+    console.log(message);
+    setState((prev) => ({
+      ...prev,
+      logs: [
+        ...prev.logs,
+        `[${new Date().toISOString().slice(11, 19)}] ${message}`,
+      ],
+    }));
+  }, []);
+
+  const setPhase = useCallback((phase: HandoffPhase) => {
+    setState((prev) => ({ ...prev, phase }));
+  }, []);
+
+  const exportOrder = useCallback(
+    async (noteId: string) => {
+      setPhase("working");
+      try {
+        const exported = await withClient((client) =>
+          exportPswapOrder(client, noteId),
+        );
+        log(
+          `Exported ${exported.exportType} NoteFile for ${noteId} (${exported.bytes.length} bytes)`,
+        );
+        setState((prev) => ({ ...prev, exported }));
+        setPhase("done");
+      } catch (error) {
+        log(`Export failed: ${error}`);
+        console.error("Export error:", error);
+        setPhase("error");
+      }
+    },
+    [log, setPhase, withClient],
+  );
+
+  const importOrder = useCallback(
+    async (file: Uint8Array | string) => {
+      setPhase("working");
+      try {
+        const imported = await withClient(async (client) => {
+          const noteId = await importPswapOrder(client, file);
+          log(`Imported note ${noteId}`);
+
+          const record = await client.getInputNote(noteId);
+          if (!record) throw new Error(`note ${noteId} not found after import`);
+          const details = record.details();
+          const registry = await loadPswapScriptRegistry(client);
+          return inspectPswapNote(details, registry.versionOf(details));
+        });
+        log(`  Script: ${imported.scriptVersion ?? "unknown"}`);
+        for (const issue of imported.issues) {
+          log(`  ${issue.code}: ${issue.message}`);
+        }
+        setState((prev) => ({
+          ...prev,
+          imported,
+          fillAmount:
+            prev.fillAmount || (imported.requested?.amount.toString() ?? ""),
+        }));
+        setPhase("done");
+      } catch (error) {
+        log(`Import failed: ${error}`);
+        console.error("Import error:", error);
+        setPhase("error");
+      }
+    },
+    [log, setPhase, withClient],
+  );
+
+  /**
+   * Execute the fill without proving it and diff its outputs against the
+   * predicted P2ID and leftover notes
+   */
+  const previewFill = useCallback(
+    async (
+      noteId: string,
+      takerId: string,
+      fillAmount: bigint,
+      slippageBps: number,
+    ) => {
+      setState((prev) => ({ ...prev, phase: "working", fillPreview: null }));
+      try {
+        const fillPreview = await withClient(async (client) => {
+          const record = await client.getInputNote(noteId);
+          if (!record) throw new Error(`note ${noteId} is not in this store`);
+
+          // Only the creator may consume an expired note; fail before executing
+          const details = record.details();
+          const version = await resolvePswapVersion(client, details);
+          assertNotExpired(
+            readPswapNote(details, version).inputs,
+            await client.getSyncHeight(),
+            version,
+          );
+
+          const prediction = await predictFillOutputs(
+            details,
+            fillAmount,
+            version,
+          );
+          log("");
+          log(`Previewing fill of ${noteId} with ${fillAmount}`);
+          const minTokensOut = minTokensOutFor(prediction, slippageBps);
+          log(`  Taker receives: ${prediction.takerReceives}`);
+          log(
+            `  Minimum receive: ${minTokensOut === null ? `not enforced by ${version.label}` : `${minTokensOut} (${slippageBps} bps slippage)`}`,
+          );
+          log(`  P2ID to maker:  ${prediction.p2id.noteId}`);
+          if (prediction.leftover) {
+            log(`  Leftover (public): ${prediction.leftover.noteId}`);
+          }
+
+          const request = await buildFillRequest(prediction, { slippageBps });
+          const tx = await previewTransaction(client, takerId, request, {
+            label: "fill",
+            onEvent: (event) => log(describeTransactionEvent(event)),
+          });
+          return {
+            prediction,
+            minTokensOut,
+            tx,
+            diff: diffFillOutputs(prediction, tx.outputNotes),
+          };
+        });
+        log(
+          fillPreview.diff.ok
+            ? "  Outputs match the prediction; confirm to prove and submit"
+            : "  Outputs differ from the prediction; see the preview panel",
+        );
+        setState((prev) => ({ ...prev, phase: "done", fillPreview }));
+      } catch (error) {
+        log("Fill preview failed:");
+        for (const line of describeTransactionError(error, {
+          accountId: takerId,
+          fillAmount,
+        })) {
+          log(`  ${line}`);
+        }
+        console.error("Fill preview error:", error);
+        setPhase("error");
+      }
+    },
+    [log, setPhase, withClient],
+  );
+
+  /**
+   * Prove and submit the previewed fill
+   */
+  const confirmFill = useCallback(
+    async (fillPreview: FillPreview) => {
+      setPhase("working");
+      try {
+        const tx = await withClient((client) =>
+          commitTransaction(client, fillPreview.tx, {
+            onEvent: (event) => log(describeTransactionEvent(event)),
+          }),
+        );
+        log(`  Fill submitted: ${tx.transactionId}`);
+        const receipt = buildFillReceipt(fillPreview.prediction, tx);
+        for (const line of formatFillReceipt(receipt)) log(`  ${line}`);
+        setState((prev) => ({ ...prev, phase: "done", fillPreview: null }));
+      } catch (error) {
+        log("Fill failed:");
+        for (const line of describeTransactionError(error, {
+          fillAmount: fillPreview.prediction.fillAmount,
+          minTokensOut: fillPreview.minTokensOut ?? undefined,
+        })) {
+          log(`  ${line}`);
+        }
+        console.error("Fill error:", error);
+        setPhase("error");
+      }
+    },
+    [log, setPhase, withClient],
+  );
+
+  const isRunning = state.phase === "working";
+  const imported = state.imported;
+  const fillPreview = state.fillPreview;
+  const canFill =
+    !isRunning &&
+    imported !== null &&
+    imported.issues.length === 0 &&
+    state.takerId.length > 0 &&
+    /^\d+$/.test(state.fillAmount) &&
+    /^\d+$/.test(state.slippageBps);
+
+  const inputStyle = {
+    width: "100%",
+    marginBottom: "8px",
+    padding: "8px",
+    backgroundColor: "#000",
+    color: "#fff",
+    border: "1px solid #374151",
+    borderRadius: "4px",
+    fontFamily: "monospace",
+    fontSize: "0.875rem",
+  };
+  const buttonStyle = (enabled: boolean) => ({
+    padding: "8px 16px",
+    backgroundColor: enabled ? "#3b82f6" : "#374151",
+    color: "#fff",
+    border: "none",
+    borderRadius: "4px",
+    cursor: enabled ? "pointer" : "not-allowed",
+    fontFamily: "monospace",
+    marginRight: "8px",
+  });
+  const panelStyle = {
+    marginBottom: "24px",
+    padding: "16px",
+    backgroundColor: "#111827",
+    borderRadius: "8px",
+    fontFamily: "monospace",
+    fontSize: "0.875rem",
+  };
+  const headingStyle = {
+    fontSize: "1.125rem",
+    fontWeight: "bold",
+    marginBottom: "8px",
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        backgroundColor: "#000",
+        color: "#fff",
+        padding: "24px",
+        fontFamily: "monospace",
+      }}
+    >
+      <div style={{ maxWidth: "896px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "1.5rem",
+            fontWeight: "bold",
+            marginBottom: "16px",
+          }}
+        >
+          Private Order Handoff
+        </h1>
+        <p style={{ color: "#9ca3af", marginBottom: "24px" }}>
+          Hand a private PSWAP order to a single counterparty as a NoteFile.
+          The P2ID and leftover notes created by a fill are always public.
+        </p>
+
+        {/* Maker: export */}
+        <div style={panelStyle}>
+          <h2 style={headingStyle}>Maker: Export Order</h2>
+          <input
+            value={state.exportNoteId}
+            onChange={(e) =>
+              setState((prev) => ({
+                ...prev,
+                exportNoteId: e.target.value.trim(),
+              }))
+            }
+            placeholder="Order note ID (0x...)"
+            spellCheck={false}
+            style={inputStyle}
+          />
+          <button
+            onClick={() => exportOrder(state.exportNoteId)}
+            disabled={isRunning || !state.exportNoteId}
+            style={buttonStyle(!isRunning && !!state.exportNoteId)}
+          >
+            Export NoteFile
+          </button>
+          {state.exported && (
+            <div style={{ marginTop: "16px" }}>
+              <textarea
+                readOnly
+                value={state.exported.base64}
+                rows={4}
+                onFocus={(e) => e.target.select()}
+                style={inputStyle}
+              />
+              <button
+                onClick={() => {
+                  const exported = state.exported;
+                  if (!exported) return;
+                  downloadNoteFile(
+                    exported.bytes,
+                    `pswap-${exported.noteId.slice(0, 18)}.mno`,
+                  );
+                }}
+                style={buttonStyle(true)}
+              >
+                Download .mno
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Taker: import and fill */}
+        <div style={panelStyle}>
+          <h2 style={headingStyle}>Taker: Import and Fill</h2>
+          <textarea
+            value={state.importText}
+            onChange={(e) =>
+              setState((prev) => ({ ...prev, importText: e.target.value }))
+            }
+            placeholder="Paste the base64 NoteFile"
+            rows={4}
+            spellCheck={false}
+            style={inputStyle}
+          />
+          <div style={{ marginBottom: "16px" }}>
+            <button
+              onClick={() => importOrder(state.importText)}
+              disabled={isRunning || !state.importText.trim()}
+              style={buttonStyle(!isRunning && !!state.importText.trim())}
+            >
+              Import Text
+            </button>
+            <input
+              type="file"
+              accept=".mno,application/octet-stream"
+              disabled={isRunning}
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (!file) return;
+                const bytes = new Uint8Array(await file.arrayBuffer());
+                setState((prev) => ({
+                  ...prev,
+                  importText: noteFileToBase64(bytes),
+                }));
+                await importOrder(bytes);
+              }}
+            />
+          </div>
+
+          {imported && (
+            <div style={{ marginBottom: "16px" }}>
+              <div>Note: {imported.noteId}</div>
+              {imported.offered && (
+                <div>
+                  Offers: {imported.offered.amount.toString()} of{" "}
+                  {imported.offered.faucetId}
+                </div>
+              )}
+              {imported.requested && (
+                <div>
+                  Requests: {imported.requested.amount.toString()} of{" "}
+                  {imported.requested.faucetId}
+                </div>
+              )}
+              {imported.creatorId && <div>Maker: {imported.creatorId}</div>}
+              {imported.inputs && (
+                <div>
+                  Expiration:{" "}
+                  {imported.inputs.expirationBlock === 0
+                    ? "never"
+                    : `block ${imported.inputs.expirationBlock}`}
+                </div>
+              )}
+              {imported.minFillAmount !== null &&
+                imported.minFillAmount > BigInt(0) && (
+                  <div>
+                    Minimum fill: {imported.minFillAmount.toString()} (or the
+                    whole remainder)
+                  </div>
+                )}
+              {imported.issues.map((issue) => (
+                <div key={issue.code} style={{ color: "#ef4444" }}>
+                  {issue.code}: {issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <input
+            value={state.takerId}
+            onChange={(e) =>
+              setState((prev) => ({
+                ...prev,
+                takerId: e.target.value.trim(),
+                fillPreview: null,
+              }))
+            }
+            placeholder="Taker account ID (0x...)"
+            spellCheck={false}
+            style={inputStyle}
+          />
+          <input
+            value={state.fillAmount}
+            onChange={(e) =>
+              setState((prev) => ({
+                ...prev,
+                fillAmount: e.target.value.trim(),
+                fillPreview: null,
+              }))
+            }
+            placeholder="Fill amount (requested asset)"
+            spellCheck={false}
+            style={inputStyle}
+          />
+          <input
+            value={state.slippageBps}
+            onChange={(e) =>
+              setState((prev) => ({
+                ...prev,
+                slippageBps: e.target.value.trim(),
+                fillPreview: null,
+              }))
+            }
+            placeholder="Slippage tolerance (bps)"
+            spellCheck={false}
+            style={inputStyle}
+          />
+          <button
+            onClick={() =>
+              imported &&
+              previewFill(
+                imported.noteId,
+                state.takerId,
+                BigInt(state.fillAmount),
+                Number(state.slippageBps),
+              )
+            }
+            disabled={!canFill}
+            style={buttonStyle(canFill)}
+          >
+            Preview Fill
+          </button>
+          {fillPreview && (
+            <>
+              <button
+                onClick={() => confirmFill(fillPreview)}
+                disabled={isRunning}
+                style={buttonStyle(!isRunning)}
+              >
+                Prove &amp; Submit
+              </button>
+              <button
+                onClick={() =>
+                  setState((prev) => ({ ...prev, fillPreview: null }))
+                }
+                disabled={isRunning}
+                style={buttonStyle(!isRunning)}
+              >
+                Discard
+              </button>
+              <FillPreviewPanel tx={fillPreview.tx} diff={fillPreview.diff} />
+            </>
+          )}
+        </div>
+
+        {/* Logs */}
+        <div
+          style={{
+            backgroundColor: "#111827",
+            borderRadius: "8px",
+            padding: "16px",
+            fontFamily: "monospace",
+            fontSize: "0.875rem",
+            overflow: "auto",
+            maxHeight: "600px",
+          }}
+        >
+          <h2 style={headingStyle}>Console Output</h2>
+          {state.logs.length === 0 ? (
+            <p style={{ color: "#6b7280" }}>
+              Export an order as the maker, or import one as the taker
+            </p>
+          ) : (
+            <pre style={{ whiteSpace: "pre-wrap" }}>
+              {state.logs.join("\n")}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,13 +5,11 @@ import {
   useWallet,
   WalletMultiButton,
 } from "@demox-labs/miden-wallet-adapter";
+import { useWebClient } from "@/lib/webClient";
 
 // Key derivation message from useAddressBookEncryption (33 bytes)
 const KEY_DERIVATION_MESSAGE = "lumina-address-book-encryption-v1";
 
-// RPC endpoint for testnet
-const RPC_URL = "https://rpc.testnet.miden.io:443";
-
 interface TestState {
   logs: string[];
   phase: "idle" | "signing" | "done" | "error";
@@ -26,6 +24,7 @@ function arrayBufferToHex(buffer: ArrayBuffer): string {
 
 export default function SigningPage() {
   const { connected, address, signBytes } = useWallet();
+  const { getClient, pause, resume } = useWebClient();
 
   const [state, setState] = useState<TestState>({
     logs: [],
@@ -167,17 +166,17 @@ export default function SigningPage() {
     setState((prev) => ({ ...prev, internalTestPhase: "running" }));
     log("\n=== Starting INTERNAL Wallet Signing Test ===");
 
+    // The test syncs itself; keep the background loop out of the way
+    await pause();
     try {
       const {
-        WebClient,
         AccountStorageMode,
         SecretKey,
         Word,
       } = await import("@demox-labs/miden-sdk");
 
-      // Create a fresh WebClient
-      log("Creating WebClient...");
-      const client = await WebClient.createClient(RPC_URL);
+      log("Getting shared WebClient...");
+      const client = await getClient();
       await client.syncState();
       const syncHeight = await client.getSyncHeight();
       log(`Synced to block: ${syncHeight}`);
@@ -386,8 +385,10 @@ export default function SigningPage() {
     } catch (error) {
       log(`❌ Internal wallet test error: ${error}`);
       setState((prev) => ({ ...prev, internalTestPhase: "error" }));
+    } finally {
+      resume();
     }
-  }, [log]);
+  }, [getClient, log, pause, resume]);
 
   const isRunning = state.phase === "signing";
   const isInternalRunning = state.internalTestPhase === "running";
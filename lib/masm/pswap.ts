@@ -1,3 +1,39 @@
+/**
+ * Messages of the script's error constants; a failed `assert.err` surfaces
+ * the message in the WebClient exception
+ */
+export const PSWAP_ERRORS = {
+  ERR_SWAP_WRONG_NUMBER_OF_INPUTS: "PSWAP wrong number of inputs",
+  ERR_SWAP_WRONG_NUMBER_OF_ASSETS: "PSWAP wrong number of assets",
+  ERR_INVALID_SWAP_AMOUNT: "PSWAP invalid SWAP amount",
+  ERR_INVALID_SWAP_AMOUNT_ZERO: "PSWAP zero SWAP amount",
+  ERR_PSWAP_EXPIRED: "PSWAP note has expired",
+  ERR_PSWAP_SLIPPAGE: "PSWAP tokens out below min_tokens_a_out",
+  ERR_PSWAP_FILL_BELOW_MIN: "PSWAP partial fill below min_fill_amount",
+} as const;
+
+export type PswapErrorCode = keyof typeof PSWAP_ERRORS;
+
+/**
+ * Additions to the original script, switched on by later script versions
+ */
+export interface PswapMasmFeatures {
+  /** Note args carry min_tokens_a_out, asserted against AMT_TOKENS_A_OUT */
+  minTokensOut?: boolean;
+  /**
+   * Input 6 carries the maker's min_fill_amount (requested asset), asserted
+   * on partial fills
+   */
+  minFill?: boolean;
+  /**
+   * `is_expired` compares current_block >= expiration_block. The original
+   * check has the operands swapped (expiration_block >= current_block), so
+   * its orders reject takers until the expiration block and accept anyone
+   * after it.
+   */
+  expiresAtBlock?: boolean;
+}
+
 /**
  * PSWAP Note Script - Partial Swap with Expiration (CLOB Format)
  *
@@ -11,7 +47,10 @@
  *   0-3:   REQUESTED_ASSET_WORD [amount, 0, suffix, prefix] (FungibleAsset format)
  *   4:     SWAPP_TAG - NoteTag for the SWAPP note (for discoverability)
  *   5:     P2ID_TAG - NoteTag for P2ID payback notes to creator
- *   6-7:   EMPTY (reserved)
+ *   6:     MIN_FILL_AMOUNT - with `minFill`: smallest partial fill of the
+ *          requested asset (0 = any); filling all of it is always allowed.
+ *          EMPTY (reserved) otherwise
+ *   7:     EMPTY (reserved)
  *   8:     SWAP_COUNT - Number of times this note has been partially filled
  *   9:     EXPIRATION_BLOCK - Block height after which note expires (0 = no expiration)
  *   10-11: EMPTY (reserved)
@@ -20,6 +59,8 @@
  *
  * Note Args:
  *   [0, 0, 0, fill_amount] - Amount of requested tokens taker wants to fill
+ *   [0, 0, min_tokens_a_out, fill_amount] - with `minTokensOut`: the fill
+ *     fails (ERR_PSWAP_SLIPPAGE) if it would pay out less offered asset
  *
  * Outputs:
  *   - If expired: Assets returned to creator via receive_asset
@@ -27,12 +68,26 @@
  *   - Partial fill: P2ID note to creator (fill_amount) + leftover PSWAP note
  *   - Full fill: P2ID note to creator (full requested_amount), no leftover
  *
- * Key Formula:
+ * Key Formula (approximate - see calculate_tokens_a_for_b / lib/pswap/math.ts for exact rounding):
  *   taker_receives = (fill_amount * offered_amount) / requested_amount
  *   leftover_offered = offered_amount - taker_receives
  *   leftover_requested = requested_amount - fill_amount
+ *
+ * `p2idScriptRoot` is the root of the P2ID script paybacks are created with,
+ * as 4 felts in `Word` order (`NoteScript.p2id().root().toU64s()`).
+ * `features` switch on additions of later script versions; with none set the
+ * output is the original (v1) script.
  */
-export const PSWAP_MASM = `
+export function buildPswapMasm(
+  p2idScriptRoot: readonly bigint[],
+  features: PswapMasmFeatures = {},
+): string {
+  const {
+    minTokensOut = false,
+    minFill = false,
+    expiresAtBlock = false,
+  } = features;
+  return `
 use.miden::active_note
 use.miden::output_note
 use.miden::note
@@ -69,7 +124,7 @@ const.REQUESTED_ASSET_INPUT_2 = 0x0002
 const.REQUESTED_ASSET_INPUT_3 = 0x0003
 const.SWAPP_TAG_INPUT = 0x0004
 const.P2ID_TAG_INPUT = 0x0005
-const.EMPTY_INPUT_6 = 0x0006
+${minFill ? "const.MIN_FILL_AMOUNT_INPUT = 0x0006" : "const.EMPTY_INPUT_6 = 0x0006"}
 const.EMPTY_INPUT_7 = 0x0007
 const.SWAPP_COUNT_INPUT = 0x0008
 const.EXPIRATION_BLOCK_INPUT = 0x0009
@@ -86,7 +141,7 @@ const.AMT_TOKENS_B = 0x0029
 const.AMT_TOKENS_B_IN = 0x002A
 const.AMT_TOKENS_A_OUT= 0x002B
 const.RATIO = 0x002C
-
+${minTokensOut ? "const.MIN_TOKENS_A_OUT = 0x0031\n" : ""}
 # TokenId Memory Addresses (60 to 70)
 const.TOKEN_A_ID_PREFIX = 0x002D
 const.TOKEN_A_ID_SUFFIX = 0x002E
@@ -111,20 +166,34 @@ const.NEW_ASSET_A = 0x0078
 # =================================================================================================
 
 # SWAP script expects exactly 14 note inputs
-const.ERR_SWAP_WRONG_NUMBER_OF_INPUTS="PSWAP wrong number of inputs"
+const.ERR_SWAP_WRONG_NUMBER_OF_INPUTS="${PSWAP_ERRORS.ERR_SWAP_WRONG_NUMBER_OF_INPUTS}"
 
 # SWAP script requires exactly one note asset
-const.ERR_SWAP_WRONG_NUMBER_OF_ASSETS="PSWAP wrong number of assets"
+const.ERR_SWAP_WRONG_NUMBER_OF_ASSETS="${PSWAP_ERRORS.ERR_SWAP_WRONG_NUMBER_OF_ASSETS}"
 
 # SWAP amount must not exceed 184467440694145
-const.ERR_INVALID_SWAP_AMOUNT="PSWAP invalid SWAP amount"
+const.ERR_INVALID_SWAP_AMOUNT="${PSWAP_ERRORS.ERR_INVALID_SWAP_AMOUNT}"
 
 # SWAPp amount must not be 0
-const.ERR_INVALID_SWAP_AMOUNT_ZERO="PSWAP zero SWAP amount"
+const.ERR_INVALID_SWAP_AMOUNT_ZERO="${PSWAP_ERRORS.ERR_INVALID_SWAP_AMOUNT_ZERO}"
 
 # Note has expired
-const.ERR_PSWAP_EXPIRED="PSWAP note has expired"
-
+const.ERR_PSWAP_EXPIRED="${PSWAP_ERRORS.ERR_PSWAP_EXPIRED}"
+${
+  minTokensOut
+    ? `
+# Fill would pay out less than min_tokens_a_out from the note args
+const.ERR_PSWAP_SLIPPAGE="${PSWAP_ERRORS.ERR_PSWAP_SLIPPAGE}"
+`
+    : ""
+}${
+  minFill
+    ? `
+# Partial fill is smaller than min_fill_amount from the note inputs
+const.ERR_PSWAP_FILL_BELOW_MIN="${PSWAP_ERRORS.ERR_PSWAP_FILL_BELOW_MIN}"
+`
+    : ""
+}
 # EXPIRATION CHECK
 # =================================================================================================
 
@@ -152,8 +221,13 @@ proc.is_expired
         # Check if current block >= expiration block
         exec.tx::get_block_number
         # => [current_block, expiration_block]
-        gte
-        # => [is_expired]
+${
+  expiresAtBlock
+    ? `        swap gte
+        # => [is_expired]`
+    : `        gte
+        # => [is_expired]`
+}
     end
 end
 
@@ -464,7 +538,18 @@ proc.execute_SWAPp
     # store token_a_AMT_out in mem
     dup mem_store.AMT_TOKENS_A_OUT
     # => [token_a_AMT_out]
-
+${
+  minTokensOut
+    ? `
+    # slippage bound from note args (0 = none)
+    dup mem_load.MIN_TOKENS_A_OUT
+    # => [min_tokens_a_out, token_a_AMT_out, token_a_AMT_out]
+
+    gte assert.err=ERR_PSWAP_SLIPPAGE
+    # => [token_a_AMT_out]
+`
+    : ""
+}
     mem_load.AMT_TOKENS_A
     # => [token_a_AMT, token_a_AMT_out]
 
@@ -476,7 +561,25 @@ proc.execute_SWAPp
         # partial order fill
         # mem_load.AMT_TOKENS_A_OUT
         push.1 mem_store.IS_PARTIAL_FILL
-    else
+${
+  minFill
+    ? `
+        # the maker's minimum applies unless the whole requested amount is
+        # paid (rounding can leave offered dust even then)
+        mem_load.AMT_TOKENS_B_IN mem_load.MIN_FILL_AMOUNT_INPUT
+        # => [min_fill_amount, token_b_AMT_IN]
+
+        dup.1 swap gte
+        # => [is_above_min, token_b_AMT_IN]
+
+        swap mem_load.AMT_TOKENS_B eq
+        # => [is_whole_fill, is_above_min]
+
+        or assert.err=ERR_PSWAP_FILL_BELOW_MIN
+        # => []
+`
+    : ""
+}    else
         # complete order fill
         # mem_load.AMT_TOKENS_A
         push.0 mem_store.IS_PARTIAL_FILL
@@ -633,12 +736,19 @@ end
 begin
     # => [NOTE_ARGS]
 
-    # can provide amount B in as note args
+${
+  minTokensOut
+    ? `    # amount B in and the minimum amount A out come in the note args
+    mem_store.AMT_TOKENS_B_IN mem_store.MIN_TOKENS_A_OUT drop drop
+    # => []
+`
+    : `    # can provide amount B in as note args
     mem_store.AMT_TOKENS_B_IN drop drop drop
     # => []
-
-    # Store P2ID script root (hardcoded from miden-lib)
-    push.15783632360113277539.7403765918285273520.15691985194755641846.10399643920503194563
+`
+}
+    # Store P2ID script root (the SDK's, see buildPswapMasm)
+    push.${p2idScriptRoot.join(".")}
     mem_storew_be.P2ID_SCRIPT_ROOT_WORD dropw
     # => []
 
@@ -669,10 +779,12 @@ begin
 
 end
 `;
+}
 
 /**
- * P2ID Script Root Hash (from miden-lib)
- * Used for creating P2ID payback notes
+ * P2ID Script Root Hash (from miden-lib) the PSWAP script was written against.
+ * The script is built from the SDK's live root; this pinned copy detects an
+ * SDK whose P2ID script changed.
  */
 export const P2ID_SCRIPT_ROOT = [
   BigInt("15783632360113277539"),
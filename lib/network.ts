@@ -0,0 +1,178 @@
+import type { WebClient } from "@demox-labs/miden-sdk";
+
+/**
+ * Network selection (testnet, devnet, local node) shared by every WebClient
+ * and the RPC client.
+ *
+ * The SDK keeps all client state in one IndexedDB database (`MidenClientDB`),
+ * so networks are isolated by swapping that store: when the selected network
+ * differs from the one the store belongs to, the store is exported into a
+ * per-network snapshot and the target network's snapshot is imported in its
+ * place. A network without a snapshot starts from a fresh store, which the SDK
+ * initializes itself once the old one is deleted.
+ */
+
+export type MidenNetwork = "testnet" | "devnet" | "localhost";
+
+export interface NetworkConfig {
+  id: MidenNetwork;
+  label: string;
+  rpcUrl: string;
+}
+
+export const NETWORKS: Record<MidenNetwork, NetworkConfig> = {
+  testnet: {
+    id: "testnet",
+    label: "Testnet",
+    rpcUrl: "https://rpc.testnet.miden.io:443",
+  },
+  devnet: {
+    id: "devnet",
+    label: "Devnet",
+    rpcUrl: "https://rpc.devnet.miden.io:443",
+  },
+  localhost: {
+    id: "localhost",
+    label: "Local node",
+    rpcUrl: "http://localhost:57291",
+  },
+};
+
+/** UI selection, overrides the environment default */
+const SELECTED_KEY = "miden-network";
+/** Network the current `MidenClientDB` contents belong to */
+const STORE_OWNER_KEY = "miden-store-network";
+
+const SNAPSHOT_DB_NAME = "MidenNetworkStoresDB";
+const SNAPSHOTS = "snapshots";
+
+const CLIENT_DB_NAME = "MidenClientDB";
+
+export function isMidenNetwork(value: string): value is MidenNetwork {
+  return value in NETWORKS;
+}
+
+/**
+ * `NEXT_PUBLIC_MIDEN_NETWORK`, or testnet
+ */
+export function getDefaultNetwork(): MidenNetwork {
+  const fromEnv = process.env.NEXT_PUBLIC_MIDEN_NETWORK ?? "";
+  return isMidenNetwork(fromEnv) ? fromEnv : "testnet";
+}
+
+/**
+ * Network picked in the UI, falling back to the environment default
+ */
+export function getNetwork(): MidenNetwork {
+  if (typeof window === "undefined") return getDefaultNetwork();
+  const selected = localStorage.getItem(SELECTED_KEY) ?? "";
+  return isMidenNetwork(selected) ? selected : getDefaultNetwork();
+}
+
+export function setNetwork(network: MidenNetwork): void {
+  localStorage.setItem(SELECTED_KEY, network);
+}
+
+/**
+ * Config of `network` (default: the selected one). `NEXT_PUBLIC_MIDEN_NODE_URI`
+ * overrides the RPC URL of the environment's default network.
+ */
+export function getNetworkConfig(
+  network: MidenNetwork = getNetwork(),
+): NetworkConfig {
+  const config = NETWORKS[network];
+  const override = process.env.NEXT_PUBLIC_MIDEN_NODE_URI;
+  return override && network === getDefaultNetwork()
+    ? { ...config, rpcUrl: override }
+    : config;
+}
+
+function openSnapshotDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SNAPSHOT_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SNAPSHOTS);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withSnapshots<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openSnapshotDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(
+        db.transaction(SNAPSHOTS, mode).objectStore(SNAPSHOTS),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Delete the client store; the next client the SDK creates initializes a
+ * fresh one. Waits for open connections (e.g. a terminated client's) to close.
+ */
+function deleteClientStore(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(CLIENT_DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Store switches and client creation, run one at a time in call order */
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Make `MidenClientDB` hold `network`'s state, saving the previous network's
+ */
+async function switchStore(network: MidenNetwork): Promise<void> {
+  const owner = localStorage.getItem(STORE_OWNER_KEY) ?? "";
+  // Before network selection existed the store belonged to the default network
+  const current = isMidenNetwork(owner) ? owner : getDefaultNetwork();
+  if (current === network) {
+    localStorage.setItem(STORE_OWNER_KEY, network);
+    return;
+  }
+
+  const { WebClient } = await import("@demox-labs/miden-sdk");
+  const client = await WebClient.createClient(getNetworkConfig(current).rpcUrl);
+  let snapshot: string | undefined;
+  try {
+    const dump = await client.exportStore();
+    await withSnapshots("readwrite", (store) => store.put(dump, current));
+    snapshot = await withSnapshots<string | undefined>("readonly", (store) =>
+      store.get(network),
+    );
+    if (snapshot !== undefined) await client.forceImportStore(snapshot);
+  } finally {
+    client.terminate();
+  }
+  if (snapshot === undefined) await deleteClientStore();
+  localStorage.setItem(STORE_OWNER_KEY, network);
+}
+
+/**
+ * Create a WebClient for the selected network, swapping in its local store
+ * first if another network's store is active. Calls are queued, so a client
+ * is always created right after the switch to its own network.
+ */
+export async function createWebClient(): Promise<WebClient> {
+  const network = getNetwork();
+  const created = storeQueue.then(async () => {
+    await switchStore(network);
+    const { WebClient } = await import("@demox-labs/miden-sdk");
+    return WebClient.createClient(getNetworkConfig(network).rpcUrl);
+  });
+  // A failed switch must not block later ones
+  storeQueue = created.catch(() => undefined);
+  return created;
+}
@@ -0,0 +1,147 @@
+import type { Note, WebClient } from "@demox-labs/miden-sdk";
+import { getRpcNotes } from "@/lib/rpcClient";
+
+export type NoteLifecycleStatus =
+  | "invalid"
+  | "not-found"
+  | "open"
+  | "consumed"
+  | "unknown";
+
+export interface NoteLifecycle {
+  noteId: string;
+  status: NoteLifecycleStatus;
+  /** Whether getRpcNotes found the note on chain */
+  found: boolean;
+  visibility: "public" | "private" | null;
+  inclusionBlock: number | null;
+  /**
+   * null when the nullifier cannot be checked: private notes, and public
+   * notes the client does not track (the node has no nullifier lookup, so
+   * only `importPublicNotes` resolves those)
+   */
+  consumed: boolean | null;
+  /** Whether the client store tracks the note */
+  tracked: boolean;
+  /** Full note for public notes, null otherwise */
+  note: Note | null;
+  error: string | null;
+}
+
+/** A note ID is a word: 0x and 64 hex digits */
+const NOTE_ID_PATTERN = /^0x[0-9a-f]{64}$/i;
+
+export function isNoteId(id: string): boolean {
+  return NOTE_ID_PATTERN.test(id);
+}
+
+/**
+ * Split free-form input ("0xabc, 0xdef\n0x123") into normalized note IDs
+ */
+export function parseNoteIds(input: string): string[] {
+  const ids = input
+    .split(/[\s,]+/)
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => id.length > 0)
+    .map((id) => (id.startsWith("0x") ? id : `0x${id}`));
+  return Array.from(new Set(ids));
+}
+
+export interface CheckNotesOptions {
+  /**
+   * Import public notes the client does not track yet and sync, so their
+   * nullifiers are known. Off by default: a status check leaves the client
+   * store untouched and reads consumption only for notes it already tracks.
+   */
+  importPublicNotes?: boolean;
+}
+
+/**
+ * Look up each note on chain and report its lifecycle. Malformed IDs are
+ * reported "invalid" without a lookup. A failed lookup leaves the status
+ * "unknown" with `error` set, distinct from "not-found".
+ */
+export async function checkNotes(
+  client: WebClient,
+  noteIds: string[],
+  opts: CheckNotesOptions = {},
+): Promise<NoteLifecycle[]> {
+  const { NoteFile, NoteType } = await import("@demox-labs/miden-sdk");
+
+  const lookups = await getRpcNotes(noteIds.filter(isNoteId));
+  const fetched = new Map(lookups.map((lookup) => [lookup.noteId, lookup]));
+  const results: NoteLifecycle[] = [];
+  let imported = 0;
+  for (const noteId of noteIds) {
+    const result: NoteLifecycle = {
+      noteId,
+      status: "unknown",
+      found: false,
+      visibility: null,
+      inclusionBlock: null,
+      consumed: null,
+      tracked: false,
+      note: null,
+      error: null,
+    };
+    results.push(result);
+
+    const lookup = fetched.get(noteId.toLowerCase());
+    if (!lookup || lookup.status === "invalid") {
+      result.status = "invalid";
+      result.error = "not a note ID (expected 0x and 64 hex digits)";
+      continue;
+    }
+    if (lookup.status === "not-found") {
+      result.status = "not-found";
+      continue;
+    }
+    if (lookup.status === "error") {
+      result.error = `${lookup.error}`;
+      continue;
+    }
+
+    try {
+      const fetchedNote = lookup.note;
+      result.found = true;
+      result.visibility =
+        fetchedNote.noteType === NoteType.Public ? "public" : "private";
+
+      const inputNote = fetchedNote.inputNote;
+      if (inputNote) {
+        result.note = inputNote.note();
+        result.inclusionBlock = inputNote.location()?.blockNum() ?? null;
+        if (opts.importPublicNotes && !(await client.getInputNote(noteId))) {
+          await client.importNoteFile(NoteFile.fromInputNote(inputNote));
+          imported++;
+        }
+      }
+    } catch (error) {
+      result.error = `${error}`;
+    }
+  }
+
+  // Sync so imported notes pick up their nullifier state
+  if (imported > 0) await client.syncState();
+
+  for (const result of results) {
+    if (!result.found || result.visibility !== "public") continue;
+
+    try {
+      const record = await client.getInputNote(result.noteId);
+      if (!record) continue;
+
+      result.tracked = true;
+      result.consumed = record.isConsumed();
+      result.status = result.consumed ? "consumed" : "open";
+      if (result.inclusionBlock === null) {
+        result.inclusionBlock =
+          record.inclusionProof()?.location().blockNum() ?? null;
+      }
+    } catch (error) {
+      result.error = `${error}`;
+    }
+  }
+
+  return results;
+}
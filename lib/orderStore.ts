@@ -0,0 +1,335 @@
+import type { NoteDetails, WebClient } from "@demox-labs/miden-sdk";
+import {
+  accountIdHexFromParts,
+  compilePswapScript,
+  indexKnownNotes,
+  loadPswapScriptRegistry,
+  PswapInputIndex,
+  traceOrderLineage,
+  type KnownNotes,
+  type OrderLineage,
+  type PswapOrder,
+} from "@/lib/pswap";
+import { getDefaultNetwork, getNetwork } from "@/lib/network";
+
+/**
+ * Persistent record of the PSWAP orders a maker created, so an order can be
+ * tracked and reclaimed after the tab is closed. Lives in its own IndexedDB
+ * database next to the WebClient's store, one per network.
+ */
+
+const DB_NAME = "PswapOrdersDB";
+const DB_VERSION = 1;
+const ORDERS = "orders";
+const BY_MAKER = "makerId";
+
+export type StoredOrderStatus =
+  | "open"
+  | "partially-filled"
+  | "filled"
+  | "reclaimed"
+  /** Consumed without a successor this client can see */
+  | "closed";
+
+/** Bigints are stored as decimal strings */
+export interface StoredOrder {
+  /** ID of the original note; later notes of the order are in `liveNoteId` */
+  originNoteId: string;
+  makerId: string;
+  serial: string[];
+  /** The 14 raw note inputs */
+  inputValues: string[];
+  scriptRoot: string;
+  offeredFaucetId: string;
+  offeredAmount: string;
+  requestedFaucetId: string;
+  requestedAmount: string;
+  visibility: "public" | "private";
+  expirationBlock: number;
+  status: StoredOrderStatus;
+  /** Note currently holding the order, null once filled */
+  liveNoteId: string | null;
+  remainingOffered: string;
+  remainingRequested: string;
+  fillCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const FINAL_STATUSES: StoredOrderStatus[] = ["filled", "reclaimed", "closed"];
+
+export function isOrderFinal(order: StoredOrder): boolean {
+  return FINAL_STATUSES.includes(order.status);
+}
+
+/** Orders saved before network selection existed belong to the default network */
+function dbName(): string {
+  const network = getNetwork();
+  return network === getDefaultNetwork() ? DB_NAME : `${DB_NAME}-${network}`;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName(), DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(ORDERS, {
+        keyPath: "originNoteId",
+      });
+      store.createIndex(BY_MAKER, BY_MAKER);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(ORDERS, mode).objectStore(ORDERS));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveOrder(order: StoredOrder): Promise<void> {
+  await withStore("readwrite", (store) => store.put(order));
+}
+
+/**
+ * Save a newly created order and register its swap tag with the client:
+ * leftovers carry the same tag, so every later sync picks them up and
+ * refreshes need no tag registration or sync of their own
+ */
+export async function storeNewOrder(
+  client: WebClient,
+  order: StoredOrder,
+): Promise<void> {
+  await saveOrder(order);
+  await client.addTag(order.inputValues[PswapInputIndex.SWAPP_TAG]);
+}
+
+export async function getOrder(
+  originNoteId: string,
+): Promise<StoredOrder | null> {
+  const order = await withStore<StoredOrder | undefined>("readonly", (store) =>
+    store.get(originNoteId),
+  );
+  return order ?? null;
+}
+
+/**
+ * All orders of a maker, newest first
+ */
+export async function getOrdersByMaker(makerId: string): Promise<StoredOrder[]> {
+  const orders = await withStore<StoredOrder[]>("readonly", (store) =>
+    store.index(BY_MAKER).getAll(makerId.toLowerCase()),
+  );
+  return orders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteOrder(originNoteId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(originNoteId));
+}
+
+/**
+ * Build the record for an order just created with `createPswapOrder`
+ */
+export function toStoredOrder(
+  order: PswapOrder,
+  makerId: string,
+  visibility: StoredOrder["visibility"],
+): StoredOrder {
+  const assets = order.note.assets().fungibleAssets();
+  const now = Date.now();
+  return {
+    originNoteId: order.noteId,
+    makerId: makerId.toLowerCase(),
+    serial: order.serial.map((value) => value.toString()),
+    inputValues: order.note
+      .recipient()
+      .inputs()
+      .values()
+      .map((felt) => felt.asInt().toString()),
+    scriptRoot: order.note.recipient().script().root().toHex(),
+    offeredFaucetId: assets[0].faucetId().toString(),
+    offeredAmount: assets[0].amount().toString(),
+    requestedFaucetId: accountIdHexFromParts(
+      order.inputs.requestedFaucetPrefix,
+      order.inputs.requestedFaucetSuffix,
+    ),
+    requestedAmount: order.inputs.requestedAmount.toString(),
+    visibility,
+    expirationBlock: order.inputs.expirationBlock,
+    status: "open",
+    liveNoteId: order.noteId,
+    remainingOffered: assets[0].amount().toString(),
+    remainingRequested: order.inputs.requestedAmount.toString(),
+    fillCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Rebuild the original note from the record, so private orders can be traced
+ * without RPC access to their details
+ */
+async function storedOrderDetails(
+  client: WebClient,
+  order: StoredOrder,
+): Promise<NoteDetails> {
+  const {
+    AccountId,
+    Felt,
+    FungibleAsset,
+    MidenArrays,
+    NoteAssets,
+    NoteDetails,
+    NoteInputs,
+    NoteRecipient,
+    Word,
+  } = await import("@demox-labs/miden-sdk");
+
+  const version = (await loadPswapScriptRegistry(client)).byRoot(
+    order.scriptRoot,
+  );
+  if (!version) {
+    throw new Error(
+      `order ${order.originNoteId} was created with an unknown PSWAP script ${order.scriptRoot}`,
+    );
+  }
+  const script = await compilePswapScript(client, version);
+  return new NoteDetails(
+    new NoteAssets([
+      new FungibleAsset(
+        AccountId.fromHex(order.offeredFaucetId),
+        BigInt(order.offeredAmount),
+      ),
+    ]),
+    new NoteRecipient(
+      new Word(new BigUint64Array(order.serial.map(BigInt))),
+      script,
+      new NoteInputs(
+        new MidenArrays.FeltArray(
+          order.inputValues.map((value) => new Felt(BigInt(value))),
+        ),
+      ),
+    ),
+  );
+}
+
+/**
+ * Whether a transaction of the maker in this client consumed `noteId`
+ */
+async function consumedByMaker(
+  client: WebClient,
+  makerId: string,
+  noteId: string,
+): Promise<boolean> {
+  const { TransactionFilter } = await import("@demox-labs/miden-sdk");
+
+  const record = await client.getInputNote(noteId);
+  if (!record) return false;
+  const nullifier = record.nullifier();
+
+  const transactions = await client.getTransactions(TransactionFilter.all());
+  return transactions.some(
+    (tx) =>
+      tx.accountId().toString().toLowerCase() === makerId &&
+      tx.inputNoteNullifiers().some((word) => word.toHex() === nullifier),
+  );
+}
+
+function statusOf(lineage: OrderLineage, reclaimed: boolean): StoredOrderStatus {
+  switch (lineage.status) {
+    case "filled":
+      return "filled";
+    case "consumed":
+      return reclaimed ? "reclaimed" : "closed";
+    default:
+      return lineage.fills.length > 0 ? "partially-filled" : "open";
+  }
+}
+
+/**
+ * Re-trace an order against the client's last sync and persist what changed
+ * (fills, live note, final state). Pass `known` to share one note index
+ * across orders.
+ */
+export async function refreshOrder(
+  client: WebClient,
+  order: StoredOrder,
+  known?: KnownNotes,
+): Promise<StoredOrder> {
+  if (isOrderFinal(order)) return order;
+
+  const lineage = await traceOrderLineage(
+    client,
+    order.originNoteId,
+    await storedOrderDetails(client, order),
+    known ?? (await indexKnownNotes(client)),
+  );
+  const reclaimed =
+    lineage.status === "consumed" &&
+    lineage.liveNoteId !== null &&
+    (await consumedByMaker(client, order.makerId, lineage.liveNoteId));
+
+  const updated: StoredOrder = {
+    ...order,
+    status: statusOf(lineage, reclaimed),
+    liveNoteId: lineage.liveNoteId,
+    remainingOffered: lineage.remainingOffered.toString(),
+    remainingRequested: lineage.remainingRequested.toString(),
+    fillCount: lineage.fills.length,
+    updatedAt: Date.now(),
+  };
+  await saveOrder(updated);
+  return updated;
+}
+
+/**
+ * `syncState`, then refresh every non-final order of the accounts in this
+ * client, so fills and reclaims observed by the sync are persisted. Use in
+ * place of a bare `client.syncState()` wherever the maker's orders matter.
+ */
+export async function syncOrders(client: WebClient): Promise<OrderRefresh> {
+  await client.syncState();
+  return refreshOrders(client);
+}
+
+export interface OrderRefresh {
+  updated: StoredOrder[];
+  /** Orders whose trace failed; they keep their stored state */
+  failed: { originNoteId: string; error: unknown }[];
+}
+
+/**
+ * Refresh every non-final order of the accounts in this client against what
+ * the client has synced (e.g. by a background sync loop). Does not sync:
+ * every order is traced against one index of the client's notes.
+ */
+export async function refreshOrders(client: WebClient): Promise<OrderRefresh> {
+  const updated: StoredOrder[] = [];
+  const failed: OrderRefresh["failed"] = [];
+  let known: KnownNotes | null = null;
+  for (const account of await client.getAccounts()) {
+    const makerId = account.id().toString();
+    for (const order of await getOrdersByMaker(makerId)) {
+      if (isOrderFinal(order)) continue;
+      try {
+        known ??= await indexKnownNotes(client);
+        updated.push(await refreshOrder(client, order, known));
+      } catch (error) {
+        failed.push({ originNoteId: order.originNoteId, error });
+      }
+    }
+  }
+  return { updated, failed };
+}
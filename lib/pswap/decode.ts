@@ -0,0 +1,135 @@
+import type { Note, NoteDetails } from "@demox-labs/miden-sdk";
+import { accountIdHexFromParts, type PswapInputs } from "./layout";
+import { CURRENT_PSWAP_VERSION, type PswapScriptVersion } from "./versions";
+
+export type PswapNoteIssueCode =
+  | "UNKNOWN_SCRIPT"
+  | "ERR_SWAP_WRONG_NUMBER_OF_INPUTS"
+  | "ERR_SWAP_WRONG_NUMBER_OF_ASSETS"
+  | "ZERO_REQUESTED_AMOUNT";
+
+export interface PswapNoteIssue {
+  code: PswapNoteIssueCode;
+  message: string;
+}
+
+export interface DecodedAsset {
+  /** Faucet account ID as hex string */
+  faucetId: string;
+  amount: bigint;
+}
+
+/**
+ * Structured, non-throwing view of a (possibly malformed) PSWAP note
+ */
+export interface PswapNoteInspection {
+  noteId: string;
+  /** ID of the script version the note runs, null for an unknown script */
+  scriptVersion: string | null;
+  rawInputs: bigint[];
+  assetCount: number;
+  /** Offered asset from the note vault (first asset if there are several) */
+  offered: DecodedAsset | null;
+  /** Requested asset from inputs 0-3, null if the inputs are malformed */
+  requested: DecodedAsset | null;
+  inputs: PswapInputs | null;
+  /**
+   * Maker's minimum partial fill (requested asset, 0 = any size), null when
+   * the script does not enforce one or the inputs are malformed
+   */
+  minFillAmount: bigint | null;
+  creatorId: string | null;
+  /** Requested units per offered unit, null if either side is missing */
+  price: number | null;
+  /** Empty when the note would pass the script's input/asset assertions */
+  issues: PswapNoteIssue[];
+}
+
+/**
+ * Decode a PSWAP note's inputs and vault for display, flagging anything that
+ * would make `execute_SWAPp` fail its input or asset count assertions.
+ * `version` is the script version the note runs; pass null for an unknown
+ * script, which is flagged and decoded with the current layout as a guess.
+ */
+export function inspectPswapNote(
+  note: Note | NoteDetails,
+  version: PswapScriptVersion | null = CURRENT_PSWAP_VERSION,
+): PswapNoteInspection {
+  const issues: PswapNoteIssue[] = [];
+  if (!version) {
+    issues.push({
+      code: "UNKNOWN_SCRIPT",
+      message: `script ${note.recipient().script().root().toHex()} is not a known PSWAP version`,
+    });
+  }
+  const schema = (version ?? CURRENT_PSWAP_VERSION).inputs;
+
+  const rawInputs = note
+    .recipient()
+    .inputs()
+    .values()
+    .map((felt) => felt.asInt());
+  const assets = note.assets().fungibleAssets();
+
+  if (rawInputs.length !== schema.inputCount) {
+    issues.push({
+      code: "ERR_SWAP_WRONG_NUMBER_OF_INPUTS",
+      message: `expected ${schema.inputCount} inputs, note has ${rawInputs.length}`,
+    });
+  }
+  if (assets.length !== 1) {
+    issues.push({
+      code: "ERR_SWAP_WRONG_NUMBER_OF_ASSETS",
+      message: `expected exactly one asset, note has ${assets.length}`,
+    });
+  }
+
+  const offered: DecodedAsset | null =
+    assets.length > 0
+      ? { faucetId: assets[0].faucetId().toString(), amount: assets[0].amount() }
+      : null;
+
+  let inputs: PswapInputs | null = null;
+  let requested: DecodedAsset | null = null;
+  let creatorId: string | null = null;
+  if (rawInputs.length === schema.inputCount) {
+    inputs = schema.decode(rawInputs);
+    requested = {
+      faucetId: accountIdHexFromParts(
+        inputs.requestedFaucetPrefix,
+        inputs.requestedFaucetSuffix,
+      ),
+      amount: inputs.requestedAmount,
+    };
+    creatorId = accountIdHexFromParts(
+      inputs.creatorPrefix,
+      inputs.creatorSuffix,
+    );
+    if (inputs.requestedAmount === BigInt(0)) {
+      issues.push({
+        code: "ZERO_REQUESTED_AMOUNT",
+        message: "requested amount is 0; any fill would fail",
+      });
+    }
+  }
+
+  const price =
+    offered && requested && offered.amount > BigInt(0)
+      ? Number(requested.amount) / Number(offered.amount)
+      : null;
+
+  return {
+    noteId: note.id().toString(),
+    scriptVersion: version?.id ?? null,
+    rawInputs,
+    assetCount: assets.length,
+    offered,
+    requested,
+    inputs,
+    minFillAmount:
+      inputs && version?.features.minFill ? inputs.minFillAmount : null,
+    creatorId,
+    price,
+    issues,
+  };
+}
@@ -0,0 +1,155 @@
+import { PSWAP_ERRORS, type PswapErrorCode } from "@/lib/masm/pswap";
+import { MAX_SWAP_AMOUNT, PSWAP_INPUT_COUNT } from "./layout";
+
+/**
+ * Classify WebClient transaction failures: the PSWAP script's `assert.err`
+ * constants and the wallet's insufficient-balance failure become a
+ * `TransactionFailure` with an explanation and a suggested fix, instead of a
+ * raw VM error and stack.
+ */
+
+export type TransactionFailureCode = PswapErrorCode | "INSUFFICIENT_BALANCE";
+
+/**
+ * What the caller knows about the failed transaction; each field sharpens
+ * the explanation when present
+ */
+export interface FailureContext {
+  /** Account (hex) that executed the transaction */
+  accountId?: string;
+  /** Expiration block of the PSWAP note being consumed */
+  expirationBlock?: number;
+  /** Block the transaction referenced (the client's sync height) */
+  currentBlock?: number;
+  /** Fill amount passed in the note args */
+  fillAmount?: bigint;
+  /** min_tokens_a_out passed in the note args */
+  minTokensOut?: bigint;
+  /** min_fill_amount of the PSWAP note being consumed */
+  minFillAmount?: bigint;
+}
+
+export class TransactionFailure extends Error {
+  constructor(
+    public readonly code: TransactionFailureCode,
+    public readonly explanation: string,
+    public readonly fix: string,
+    public readonly cause: unknown,
+  ) {
+    super(`${explanation}. ${fix}`);
+    this.name = "TransactionFailure";
+  }
+}
+
+interface FailureRule {
+  code: TransactionFailureCode;
+  /** Substring of the VM error that identifies the failure */
+  message: string;
+  explain: (context: FailureContext) => { explanation: string; fix: string };
+}
+
+/** `remove_fungible_asset` in the account vault, reached by `move_asset_to_note` */
+const INSUFFICIENT_BALANCE_MESSAGE =
+  "amount of the asset in the vault is less than the amount to remove";
+
+const RULES: FailureRule[] = [
+  {
+    code: "ERR_PSWAP_EXPIRED",
+    message: PSWAP_ERRORS.ERR_PSWAP_EXPIRED,
+    explain: ({ expirationBlock, currentBlock }) => ({
+      explanation:
+        expirationBlock === undefined
+          ? "Order expired; only the creator can reclaim it"
+          : `Order expired at block ${expirationBlock}${currentBlock === undefined ? "" : ` (current block ${currentBlock})`}; only the creator can reclaim it`,
+      fix: "Fill another order, or ask the creator to reclaim this one",
+    }),
+  },
+  {
+    code: "ERR_PSWAP_SLIPPAGE",
+    message: PSWAP_ERRORS.ERR_PSWAP_SLIPPAGE,
+    explain: ({ minTokensOut }) => ({
+      explanation: `The fill would pay out less than the minimum${minTokensOut === undefined ? "" : ` of ${minTokensOut}`} offered tokens`,
+      fix: "Re-check the order's current amounts, or raise the slippage tolerance",
+    }),
+  },
+  {
+    code: "ERR_PSWAP_FILL_BELOW_MIN",
+    message: PSWAP_ERRORS.ERR_PSWAP_FILL_BELOW_MIN,
+    explain: ({ fillAmount, minFillAmount }) => ({
+      explanation: `The partial fill${fillAmount === undefined ? "" : ` of ${fillAmount}`} is below the maker's minimum fill${minFillAmount === undefined ? "" : ` of ${minFillAmount}`}`,
+      fix: "Fill at least the minimum, or the order's whole remaining requested amount",
+    }),
+  },
+  {
+    code: "ERR_INVALID_SWAP_AMOUNT_ZERO",
+    message: PSWAP_ERRORS.ERR_INVALID_SWAP_AMOUNT_ZERO,
+    explain: () => ({
+      explanation: "The fill amount in the note args is 0",
+      fix: "Fill with a positive amount of the requested asset",
+    }),
+  },
+  {
+    code: "ERR_INVALID_SWAP_AMOUNT",
+    message: PSWAP_ERRORS.ERR_INVALID_SWAP_AMOUNT,
+    explain: ({ fillAmount }) => ({
+      explanation: `The fill amount${fillAmount === undefined ? "" : ` ${fillAmount}`} is invalid for this order`,
+      fix: `Fill at most the order's remaining requested amount (and at most ${MAX_SWAP_AMOUNT})`,
+    }),
+  },
+  {
+    code: "ERR_SWAP_WRONG_NUMBER_OF_INPUTS",
+    message: PSWAP_ERRORS.ERR_SWAP_WRONG_NUMBER_OF_INPUTS,
+    explain: () => ({
+      explanation: `The note does not have the ${PSWAP_INPUT_COUNT} inputs of a PSWAP order`,
+      fix: "Decode the note on the checker page; it was created with another layout or script",
+    }),
+  },
+  {
+    code: "ERR_SWAP_WRONG_NUMBER_OF_ASSETS",
+    message: PSWAP_ERRORS.ERR_SWAP_WRONG_NUMBER_OF_ASSETS,
+    explain: () => ({
+      explanation: "The note does not carry exactly one asset",
+      fix: "Create the order with a single fungible offered asset",
+    }),
+  },
+  {
+    code: "INSUFFICIENT_BALANCE",
+    message: INSUFFICIENT_BALANCE_MESSAGE,
+    explain: ({ accountId, fillAmount }) => ({
+      explanation: `${accountId ?? "The account"} does not hold enough of an asset the transaction sends`,
+      fix:
+        fillAmount === undefined
+          ? "Fund the account or lower the amount"
+          : `Fund the account with at least ${fillAmount} of the requested asset, or lower the fill amount`,
+    }),
+  },
+];
+
+/**
+ * Recognize a known failure in a WebClient exception (or a
+ * `TransactionStageError` wrapping one). Returns null for anything else.
+ */
+export function classifyTransactionError(
+  error: unknown,
+  context: FailureContext = {},
+): TransactionFailure | null {
+  if (error instanceof TransactionFailure) return error;
+  const text = `${error}`;
+  const rule = RULES.find((r) => text.includes(r.message));
+  if (!rule) return null;
+  const { explanation, fix } = rule.explain(context);
+  return new TransactionFailure(rule.code, explanation, fix, error);
+}
+
+/**
+ * Log lines for a failure: explanation and fix when recognized, the raw
+ * error otherwise
+ */
+export function describeTransactionError(
+  error: unknown,
+  context: FailureContext = {},
+): string[] {
+  const failure = classifyTransactionError(error, context);
+  if (!failure) return [`${error}`];
+  return [failure.explanation, `Fix: ${failure.fix}`];
+}
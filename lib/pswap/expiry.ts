@@ -0,0 +1,136 @@
+import { PSWAP_ERRORS } from "@/lib/masm/pswap";
+import {
+  assertBlockNumber,
+  PswapValidationError,
+  type PswapInputs,
+} from "./layout";
+import { CURRENT_PSWAP_VERSION, type PswapScriptVersion } from "./versions";
+
+/**
+ * When an order expires: never, N blocks after the current sync height, or at
+ * an absolute block height
+ */
+export type PswapExpiration =
+  | { kind: "none" }
+  | { kind: "relative"; blocks: number }
+  | { kind: "absolute"; block: number };
+
+export interface ExpiryStatus {
+  /** 0 = no expiration */
+  expirationBlock: number;
+  expires: boolean;
+  /**
+   * Mirrors the script's `is_expired`: current block >= expiration block, or
+   * the reverse for versions without `expiresAtBlock`
+   */
+  expired: boolean;
+  /** Blocks until the note expires, null if it never expires */
+  blocksRemaining: number | null;
+}
+
+/**
+ * Thrown when a non-creator tries to fill a note past its expiration block
+ * (the script would fail with ERR_PSWAP_EXPIRED)
+ */
+export class PswapExpiredError extends Error {
+  constructor(
+    public readonly expirationBlock: number,
+    public readonly currentBlock: number,
+    message = `PSWAP note expired at block ${expirationBlock} (current block ${currentBlock}); only the creator can reclaim it`,
+  ) {
+    super(message);
+    this.name = "PswapExpiredError";
+  }
+}
+
+/**
+ * Evaluate `is_expired` of script `version` against the block the
+ * transaction will reference (the client's sync height). v1 to v3 compare
+ * the other way round: their orders count as expired up to and including the
+ * expiration block and as open after it.
+ */
+export function getExpiryStatus(
+  expirationBlock: number,
+  currentBlock: number,
+  version: PswapScriptVersion = CURRENT_PSWAP_VERSION,
+): ExpiryStatus {
+  if (expirationBlock === 0) {
+    return {
+      expirationBlock,
+      expires: false,
+      expired: false,
+      blocksRemaining: null,
+    };
+  }
+
+  return {
+    expirationBlock,
+    expires: true,
+    expired: version.features.expiresAtBlock
+      ? currentBlock >= expirationBlock
+      : expirationBlock >= currentBlock,
+    blocksRemaining: Math.max(expirationBlock - currentBlock, 0),
+  };
+}
+
+/**
+ * Resolve an expiration to the block number stored in input 9, relative to
+ * `currentBlock` (the client's `getSyncHeight()`). Returns 0 for no expiration.
+ */
+export function resolveExpirationBlock(
+  expiration: PswapExpiration,
+  currentBlock: number,
+): number {
+  switch (expiration.kind) {
+    case "none":
+      return 0;
+    case "relative": {
+      if (!Number.isInteger(expiration.blocks) || expiration.blocks <= 0) {
+        throw new PswapValidationError(
+          "expiration",
+          `relative expiration must be a positive number of blocks, got ${expiration.blocks}`,
+        );
+      }
+      const block = currentBlock + expiration.blocks;
+      assertBlockNumber("expiration", block);
+      return block;
+    }
+    case "absolute":
+      assertBlockNumber("expiration", expiration.block);
+      // An order expiring at or before the current block could never be filled
+      if (expiration.block <= currentBlock) {
+        throw new PswapValidationError(
+          "expiration",
+          `block ${expiration.block} is not after the current block ${currentBlock}`,
+        );
+      }
+      return expiration.block;
+  }
+}
+
+/**
+ * Fail fast before a taker fill that the script would reject with ERR_PSWAP_EXPIRED
+ */
+export function assertNotExpired(
+  inputs: PswapInputs,
+  currentBlock: number,
+  version: PswapScriptVersion = CURRENT_PSWAP_VERSION,
+): void {
+  const { expirationBlock } = inputs;
+  if (!getExpiryStatus(expirationBlock, currentBlock, version).expired) return;
+  if (version.features.expiresAtBlock || currentBlock >= expirationBlock) {
+    throw new PswapExpiredError(expirationBlock, currentBlock);
+  }
+  throw new PswapExpiredError(
+    expirationBlock,
+    currentBlock,
+    `${version.label} notes reject takers until after their expiration block ${expirationBlock} (current block ${currentBlock}); only the creator can consume it before then`,
+  );
+}
+
+/**
+ * True if a WebClient transaction failure is the script's ERR_PSWAP_EXPIRED assertion
+ */
+export function isPswapExpiredFailure(error: unknown): boolean {
+  return `${error}`.includes(PSWAP_ERRORS.ERR_PSWAP_EXPIRED);
+}
@@ -0,0 +1,516 @@
+import type {
+  AccountId,
+  Note,
+  NoteDetails,
+  NoteRecipient,
+  NoteTag,
+  TransactionRequest,
+  Word,
+} from "@demox-labs/miden-sdk";
+import {
+  accountIdHexFromParts,
+  assertSwapAmount,
+  FIELD_MODULUS,
+  PswapInputIndex,
+  PswapValidationError,
+  type PswapInputs,
+  type PswapSerial,
+} from "./layout";
+import { quoteTokensAForB, type TokensAForBQuote } from "./math";
+import { buildSwapTag } from "./tags";
+import { CURRENT_PSWAP_VERSION, type PswapScriptVersion } from "./versions";
+
+type NoteDetailsAndTag = ReturnType<
+  TransactionRequest["expectedFutureNotes"]
+>[number];
+
+/**
+ * A note a fill will create. The SDK objects stay owned by the prediction:
+ * request builders hand the SDK copies, since it takes ownership of (and
+ * frees) what it is given.
+ */
+export interface PredictedNote {
+  noteId: string;
+  details: NoteDetails;
+  recipient: NoteRecipient;
+  serial: PswapSerial;
+  /** Faucet ID (hex) of the single asset carried by the note */
+  faucetId: string;
+  amount: bigint;
+  tag: number;
+}
+
+export interface PredictedLeftover extends PredictedNote {
+  /** Raw 14 input felts of the leftover PSWAP note */
+  inputValues: bigint[];
+  requestedAmount: bigint;
+  /** Inherited from the filled note (0 = no expiration) */
+  expirationBlock: number;
+}
+
+export interface FillPrediction {
+  /** ID (hex) of the PSWAP note being filled */
+  noteId: string;
+  /** Maker account (hex) the P2ID note pays back to */
+  creatorId: string;
+  fillAmount: bigint;
+  /** Offered asset amount paid out to the taker */
+  takerReceives: bigint;
+  /** calculate_tokens_a_for_b result with rounding diagnostics */
+  quote: TokensAForBQuote;
+  isPartialFill: boolean;
+  /** SWAP_COUNT after this fill */
+  swapCount: bigint;
+  /** P2ID note paying `fillAmount` of the requested asset back to the creator */
+  p2id: PredictedNote;
+  /** Leftover PSWAP note, or null when the fill consumes the whole offer */
+  leftover: PredictedLeftover | null;
+  /** Script version of the filled note (and of the leftover) */
+  version: PswapScriptVersion;
+}
+
+export interface FillRequestOptions {
+  /**
+   * Accepted shortfall of the payout below `takerReceives`, in basis points
+   * (default `DEFAULT_SLIPPAGE_BPS`). Enforced by scripts with
+   * `minTokensOut`; v1 notes ignore it.
+   */
+  slippageBps?: number;
+}
+
+/** 0.5% */
+export const DEFAULT_SLIPPAGE_BPS = 50;
+
+const BPS = BigInt(10000);
+
+/**
+ * The state of a PSWAP note that drives what a fill produces
+ */
+export interface PswapNoteState {
+  noteId: string;
+  inputValues: bigint[];
+  inputs: PswapInputs;
+  serial: PswapSerial;
+  offeredFaucetId: string;
+  offeredAmount: bigint;
+  requestedFaucetId: string;
+  creatorId: string;
+  /** Script version the note was read with */
+  version: PswapScriptVersion;
+}
+
+/**
+ * A note running a PSWAP script whose inputs could not be read, left out of
+ * a listing
+ */
+export interface MalformedPswapNote {
+  noteId: string;
+  error: unknown;
+}
+
+function toSerial(word: Word): PswapSerial {
+  const [s0, s1, s2, s3] = word.toU64s();
+  return [s0, s1, s2, s3];
+}
+
+/**
+ * Read a PSWAP note's inputs, serial number and offered asset, using the
+ * input layout of the script `version` the note runs
+ */
+export function readPswapNote(
+  note: Note | NoteDetails,
+  version: PswapScriptVersion = CURRENT_PSWAP_VERSION,
+): PswapNoteState {
+  const assets = note.assets().fungibleAssets();
+  if (assets.length !== 1) {
+    throw new PswapValidationError(
+      "assets",
+      `expected exactly one asset, got ${assets.length}`,
+    );
+  }
+
+  const recipient = note.recipient();
+  const inputValues = recipient
+    .inputs()
+    .values()
+    .map((felt) => felt.asInt());
+  const inputs = version.inputs.decode(inputValues);
+
+  return {
+    noteId: note.id().toString(),
+    inputValues,
+    inputs,
+    serial: toSerial(recipient.serialNum()),
+    offeredFaucetId: assets[0].faucetId().toString(),
+    offeredAmount: assets[0].amount(),
+    requestedFaucetId: accountIdHexFromParts(
+      inputs.requestedFaucetPrefix,
+      inputs.requestedFaucetSuffix,
+    ),
+    creatorId: accountIdHexFromParts(inputs.creatorPrefix, inputs.creatorSuffix),
+    version,
+  };
+}
+
+/**
+ * Whether the script rejects `fillAmount` as a partial fill smaller than the
+ * maker's min_fill_amount (ERR_PSWAP_FILL_BELOW_MIN). Filling the whole
+ * remaining amount always passes.
+ */
+export function isBelowMinFill(
+  inputs: PswapInputs,
+  fillAmount: bigint,
+): boolean {
+  return (
+    fillAmount < inputs.requestedAmount && fillAmount < inputs.minFillAmount
+  );
+}
+
+/**
+ * Serial number of the leftover note created when `serial` is partially
+ * filled: the last element + 1 (`add.1` on the top of the serial word)
+ */
+export function leftoverSerialOf(serial: PswapSerial): PswapSerial {
+  const [s0, s1, s2, s3] = serial;
+  return [s0, s1, s2, (s3 + BigInt(1)) % FIELD_MODULUS];
+}
+
+/**
+ * Recipient of the P2ID payback created by fill number `swapCount` (the
+ * incremented count). It does not depend on the fill amount.
+ */
+export async function buildP2idRecipient(
+  state: PswapNoteState,
+  swapCount: bigint,
+): Promise<NoteRecipient> {
+  const { Felt, MidenArrays, NoteInputs, NoteRecipient, NoteScript, Rpo256 } =
+    await import("@demox-labs/miden-sdk");
+
+  // hmerge(SERIAL_NUM, [swap_count, expiration, input_10, input_11])
+  const countWord = [
+    swapCount,
+    state.inputValues[PswapInputIndex.EXPIRATION_BLOCK],
+    state.inputValues[PswapInputIndex.EMPTY_10],
+    state.inputValues[PswapInputIndex.EMPTY_11],
+  ];
+  const serialWord = Rpo256.hashElements(
+    new MidenArrays.FeltArray(
+      [...state.serial, ...countWord].map((value) => new Felt(value)),
+    ),
+  );
+  return new NoteRecipient(
+    serialWord,
+    NoteScript.p2id(),
+    new NoteInputs(
+      new MidenArrays.FeltArray([
+        new Felt(state.inputs.creatorSuffix),
+        new Felt(state.inputs.creatorPrefix),
+      ]),
+    ),
+  );
+}
+
+/**
+ * Find the NoteTag object matching the SWAPP_TAG input of a note. Notes built
+ * by `createPswapOrder` carry either the public or the private pair tag.
+ */
+async function resolveSwappTag(
+  swappTag: number,
+  offeredFaucetId: AccountId,
+  requestedFaucetId: AccountId,
+): Promise<NoteTag> {
+  const { NoteType } = await import("@demox-labs/miden-sdk");
+  for (const noteType of [NoteType.Public, NoteType.Private]) {
+    const tag = await buildSwapTag(noteType, offeredFaucetId, requestedFaucetId);
+    if (tag.asU32() === swappTag) return tag;
+  }
+  throw new PswapValidationError(
+    "swappTag",
+    `tag ${swappTag} does not match the note's asset pair`,
+  );
+}
+
+/**
+ * Derive the exact P2ID payback and leftover PSWAP notes a fill of
+ * `fillAmount` will create, mirroring `execute_SWAPp` in the PSWAP script:
+ *
+ *   - SWAP_COUNT is incremented before anything is hashed
+ *   - P2ID serial = hmerge(SERIAL_NUM, mem[8..12]) where mem[8..12] is
+ *     [swap_count + 1, expiration_block, input_10, input_11]
+ *   - P2ID recipient = (p2id script, [creator_suffix, creator_prefix])
+ *   - Leftover serial = SERIAL_NUM with its last element + 1
+ *   - Leftover inputs = current inputs with the remaining requested amount
+ *     and the incremented swap count; same script, same SWAPP tag, and the
+ *     same expiration block, so every leftover expires with the original order
+ *
+ * `version` is the script version the note runs; the leftover keeps it.
+ */
+export async function predictFillOutputs(
+  note: Note | NoteDetails,
+  fillAmount: bigint,
+  version: PswapScriptVersion = CURRENT_PSWAP_VERSION,
+): Promise<FillPrediction> {
+  const sdk = await import("@demox-labs/miden-sdk");
+  const {
+    AccountId,
+    Felt,
+    FungibleAsset,
+    MidenArrays,
+    NoteAssets,
+    NoteDetails,
+    NoteInputs,
+    NoteRecipient,
+    NoteTag,
+    Word,
+  } = sdk;
+
+  const state = readPswapNote(note, version);
+  const { inputs } = state;
+
+  assertSwapAmount("fillAmount", fillAmount);
+  if (fillAmount > inputs.requestedAmount) {
+    throw new PswapValidationError(
+      "fillAmount",
+      `fill of ${fillAmount} exceeds the remaining requested amount ${inputs.requestedAmount}`,
+    );
+  }
+  if (isBelowMinFill(inputs, fillAmount)) {
+    throw new PswapValidationError(
+      "fillAmount",
+      `partial fill of ${fillAmount} is below the order's minimum of ${inputs.minFillAmount}; fill at least that or all ${inputs.requestedAmount}`,
+    );
+  }
+
+  const quote = quoteTokensAForB(
+    state.offeredAmount,
+    inputs.requestedAmount,
+    fillAmount,
+  );
+  const takerReceives = quote.tokensAOut;
+  const isPartialFill = takerReceives < state.offeredAmount;
+  const swapCount = inputs.swapCount + BigInt(1);
+
+  const offeredFaucetId = AccountId.fromHex(state.offeredFaucetId);
+  const requestedFaucetId = AccountId.fromHex(state.requestedFaucetId);
+  const creatorId = AccountId.fromHex(state.creatorId);
+
+  const p2idRecipient = await buildP2idRecipient(state, swapCount);
+  const p2idTag = NoteTag.fromAccountId(creatorId).asU32();
+  if (p2idTag !== inputs.p2idTag) {
+    throw new PswapValidationError(
+      "p2idTag",
+      `tag ${inputs.p2idTag} does not match the creator account`,
+    );
+  }
+  const p2idDetails = new NoteDetails(
+    new NoteAssets([new FungibleAsset(requestedFaucetId, fillAmount)]),
+    p2idRecipient,
+  );
+  const p2id: PredictedNote = {
+    noteId: p2idDetails.id().toString(),
+    details: p2idDetails,
+    recipient: p2idRecipient,
+    serial: toSerial(p2idRecipient.serialNum()),
+    faucetId: state.requestedFaucetId,
+    amount: fillAmount,
+    tag: p2idTag,
+  };
+
+  let leftover: PredictedLeftover | null = null;
+  if (isPartialFill) {
+    const leftoverRequested = inputs.requestedAmount - fillAmount;
+    const leftoverOffered = state.offeredAmount - takerReceives;
+
+    const inputValues = [...state.inputValues];
+    inputValues[PswapInputIndex.REQUESTED_AMOUNT] = leftoverRequested;
+    inputValues[PswapInputIndex.SWAP_COUNT] = swapCount;
+
+    const leftoverSerial = leftoverSerialOf(state.serial);
+
+    const leftoverRecipient = new NoteRecipient(
+      new Word(new BigUint64Array(leftoverSerial)),
+      note.recipient().script(),
+      new NoteInputs(
+        new MidenArrays.FeltArray(inputValues.map((value) => new Felt(value))),
+      ),
+    );
+    const leftoverTag = await resolveSwappTag(
+      inputs.swappTag,
+      offeredFaucetId,
+      requestedFaucetId,
+    );
+    const leftoverDetails = new NoteDetails(
+      new NoteAssets([new FungibleAsset(offeredFaucetId, leftoverOffered)]),
+      leftoverRecipient,
+    );
+    leftover = {
+      noteId: leftoverDetails.id().toString(),
+      details: leftoverDetails,
+      recipient: leftoverRecipient,
+      serial: leftoverSerial,
+      faucetId: state.offeredFaucetId,
+      amount: leftoverOffered,
+      tag: leftoverTag.asU32(),
+      inputValues,
+      requestedAmount: leftoverRequested,
+      expirationBlock: inputs.expirationBlock,
+    };
+  }
+
+  return {
+    noteId: state.noteId,
+    creatorId: state.creatorId,
+    fillAmount,
+    takerReceives,
+    quote,
+    isPartialFill,
+    swapCount,
+    p2id,
+    leftover,
+    version,
+  };
+}
+
+/**
+ * min_tokens_a_out for a fill: the predicted payout less `slippageBps`,
+ * rounded down. Null when the note's script cannot enforce it.
+ */
+export function minTokensOutFor(
+  prediction: FillPrediction,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+): bigint | null {
+  if (
+    !Number.isInteger(slippageBps) ||
+    slippageBps < 0 ||
+    slippageBps > Number(BPS)
+  ) {
+    throw new PswapValidationError(
+      "slippageBps",
+      `${slippageBps} is not a whole number of basis points between 0 and ${BPS}`,
+    );
+  }
+  if (!prediction.version.features.minTokensOut) return null;
+  return (prediction.takerReceives * (BPS - BigInt(slippageBps))) / BPS;
+}
+
+/**
+ * Note args for a fill: [0, 0, min_tokens_a_out, fill_amount] (MASM reads the
+ * top of stack, index 3, then index 2). Scripts without `minTokensOut` drop
+ * min_tokens_a_out.
+ */
+export async function buildFillNoteArgs(
+  fillAmount: bigint,
+  minTokensOut: bigint = BigInt(0),
+): Promise<Word> {
+  const { Word } = await import("@demox-labs/miden-sdk");
+  return new Word(
+    new BigUint64Array([BigInt(0), BigInt(0), minTokensOut, fillAmount]),
+  );
+}
+
+/**
+ * Fresh expected-note objects for everything a fill creates. The request
+ * builder takes ownership of them, so each request gets its own copies and
+ * the prediction can be reused.
+ */
+async function expectedNotesOf(
+  prediction: FillPrediction,
+): Promise<NoteDetailsAndTag[]> {
+  const sdk = await import("@demox-labs/miden-sdk");
+  const { AccountId, NoteDetails, NoteTag } = sdk;
+  // NoteDetailsAndTag is exported at runtime but missing from the SDK typings
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { NoteDetailsAndTag } = sdk as any;
+
+  const copyOf = (details: NoteDetails) =>
+    new NoteDetails(details.assets(), details.recipient());
+  const { p2id, leftover } = prediction;
+  const notes: NoteDetailsAndTag[] = [
+    new NoteDetailsAndTag(
+      copyOf(p2id.details),
+      NoteTag.fromAccountId(AccountId.fromHex(prediction.creatorId)),
+    ),
+  ];
+  if (leftover) {
+    notes.push(
+      new NoteDetailsAndTag(
+        copyOf(leftover.details),
+        await resolveSwappTag(
+          leftover.tag,
+          AccountId.fromHex(leftover.faucetId),
+          AccountId.fromHex(p2id.faucetId),
+        ),
+      ),
+    );
+  }
+  return notes;
+}
+
+/**
+ * Build the taker's fill transaction for a single prediction: the PSWAP note as
+ * an authenticated input plus every note the script will create as expected
+ * future notes and output recipients.
+ */
+export async function buildFillRequest(
+  prediction: FillPrediction,
+  opts: FillRequestOptions = {},
+): Promise<TransactionRequest> {
+  return buildMultiFillRequest([prediction], opts);
+}
+
+/**
+ * Fill several PSWAP notes atomically: one authenticated input per note, each
+ * with its own fill amount and minimum payout in the note args, and the P2ID
+ * and leftover notes of every fill as expected outputs.
+ */
+export async function buildMultiFillRequest(
+  predictions: FillPrediction[],
+  opts: FillRequestOptions = {},
+): Promise<TransactionRequest> {
+  const { MidenArrays, NoteId, NoteIdAndArgs, TransactionRequestBuilder } =
+    await import("@demox-labs/miden-sdk");
+
+  if (predictions.length === 0) {
+    throw new PswapValidationError("predictions", "nothing to fill");
+  }
+  const noteIds = new Set(predictions.map((p) => p.noteId));
+  if (noteIds.size !== predictions.length) {
+    throw new PswapValidationError(
+      "predictions",
+      "each note can only be filled once per transaction",
+    );
+  }
+
+  const outputs = predictions
+    .flatMap((prediction) => [prediction.p2id, prediction.leftover])
+    .filter((n): n is PredictedNote => n !== null);
+  const expectedNotes = (
+    await Promise.all(predictions.map(expectedNotesOf))
+  ).flat();
+  const noteIdAndArgs = await Promise.all(
+    predictions.map(
+      async (prediction) =>
+        new NoteIdAndArgs(
+          NoteId.fromHex(prediction.noteId),
+          await buildFillNoteArgs(
+            prediction.fillAmount,
+            minTokensOutFor(prediction, opts.slippageBps) ?? BigInt(0),
+          ),
+        ),
+    ),
+  );
+
+  return new TransactionRequestBuilder()
+    .withAuthenticatedInputNotes(
+      new MidenArrays.NoteIdAndArgsArray(noteIdAndArgs),
+    )
+    .withExpectedFutureNotes(
+      new MidenArrays.NoteDetailsAndTagArray(expectedNotes),
+    )
+    .withExpectedOutputRecipients(
+      new MidenArrays.NoteRecipientArray(
+        outputs.map((n) => n.details.recipient()),
+      ),
+    )
+    .build();
+}
@@ -0,0 +1,16 @@
+export * from "./decode";
+export * from "./errors";
+export * from "./expiry";
+export * from "./fill";
+export * from "./layout";
+export * from "./lineage";
+export * from "./math";
+export * from "./noteFile";
+export * from "./order";
+export * from "./orderBook";
+export * from "./reclaim";
+export * from "./reconcile";
+export * from "./script";
+export * from "./sweep";
+export * from "./tags";
+export * from "./versions";
@@ -0,0 +1,232 @@
+/**
+ * PSWAP Note Input Layout
+ *
+ * Mirrors the 14-felt input layout documented in `lib/masm/pswap.ts`:
+ *
+ *   0-3:   REQUESTED_ASSET_WORD [amount, 0, suffix, prefix]
+ *   4:     SWAPP_TAG
+ *   5:     P2ID_TAG
+ *   6:     MIN_FILL_AMOUNT (v3+; reserved before)
+ *   7:     EMPTY (reserved)
+ *   8:     SWAP_COUNT
+ *   9:     EXPIRATION_BLOCK (0 = no expiration)
+ *   10-11: EMPTY (reserved)
+ *   12:    CREATOR_PREFIX
+ *   13:    CREATOR_SUFFIX
+ */
+
+/** Number of note inputs the script asserts on (ERR_SWAP_WRONG_NUMBER_OF_INPUTS) */
+export const PSWAP_INPUT_COUNT = 14;
+
+/** Goldilocks field modulus: every felt must be strictly below this */
+export const FIELD_MODULUS = BigInt("18446744069414584321");
+
+/** Largest amount the script can scale by FACTOR (1e5) without overflowing a felt */
+export const MAX_SWAP_AMOUNT = BigInt("184467440694145");
+
+/** Largest block number representable in the u32 EXPIRATION_BLOCK input */
+export const MAX_BLOCK_NUMBER = 0xffffffff;
+
+export const PswapInputIndex = {
+  REQUESTED_AMOUNT: 0,
+  REQUESTED_ZERO: 1,
+  REQUESTED_FAUCET_SUFFIX: 2,
+  REQUESTED_FAUCET_PREFIX: 3,
+  SWAPP_TAG: 4,
+  P2ID_TAG: 5,
+  MIN_FILL_AMOUNT: 6,
+  EMPTY_7: 7,
+  SWAP_COUNT: 8,
+  EXPIRATION_BLOCK: 9,
+  EMPTY_10: 10,
+  EMPTY_11: 11,
+  CREATOR_PREFIX: 12,
+  CREATOR_SUFFIX: 13,
+} as const;
+
+/** Human-readable input names, indexed by input position (used for logging) */
+export const PSWAP_INPUT_NAMES = [
+  "requested_amount",
+  "zero",
+  "faucet_suffix",
+  "faucet_prefix",
+  "swapp_tag",
+  "p2id_tag",
+  "empty",
+  "empty",
+  "swap_count",
+  "expiration_block",
+  "empty",
+  "empty",
+  "creator_prefix",
+  "creator_suffix",
+];
+
+/** Input names of scripts that read min_fill_amount from input 6 */
+export const PSWAP_MIN_FILL_INPUT_NAMES = PSWAP_INPUT_NAMES.map((name, i) =>
+  i === PswapInputIndex.MIN_FILL_AMOUNT ? "min_fill_amount" : name,
+);
+
+/** Four serial number felts, in Word order */
+export type PswapSerial = [bigint, bigint, bigint, bigint];
+
+/**
+ * Structured view of the PSWAP note inputs
+ */
+export interface PswapInputs {
+  requestedAmount: bigint;
+  requestedFaucetSuffix: bigint;
+  requestedFaucetPrefix: bigint;
+  swappTag: number;
+  p2idTag: number;
+  swapCount: bigint;
+  expirationBlock: number;
+  /**
+   * Smallest partial fill of the requested asset (0 = any size). Only scripts
+   * with `minFill` read it; filling the whole remaining amount is always allowed.
+   */
+  minFillAmount: bigint;
+  creatorPrefix: bigint;
+  creatorSuffix: bigint;
+}
+
+/**
+ * Thrown when a value does not fit the PSWAP input layout
+ */
+export class PswapValidationError extends Error {
+  constructor(
+    public readonly field: string,
+    message: string,
+  ) {
+    super(`${field}: ${message}`);
+    this.name = "PswapValidationError";
+  }
+}
+
+export function assertFelt(field: string, value: bigint): void {
+  if (value < BigInt(0) || value >= FIELD_MODULUS) {
+    throw new PswapValidationError(field, `${value} is not a valid felt`);
+  }
+}
+
+export function assertSwapAmount(field: string, amount: bigint): void {
+  if (amount <= BigInt(0)) {
+    throw new PswapValidationError(field, "amount must be greater than 0");
+  }
+  if (amount > MAX_SWAP_AMOUNT) {
+    throw new PswapValidationError(
+      field,
+      `amount must not exceed ${MAX_SWAP_AMOUNT}`,
+    );
+  }
+}
+
+/** 0 (no minimum) or a swap amount no larger than the requested amount */
+export function assertMinFillAmount(
+  minFillAmount: bigint,
+  requestedAmount: bigint,
+): void {
+  if (minFillAmount === BigInt(0)) return;
+  assertSwapAmount("minFillAmount", minFillAmount);
+  if (minFillAmount > requestedAmount) {
+    throw new PswapValidationError(
+      "minFillAmount",
+      `${minFillAmount} exceeds the requested amount ${requestedAmount}`,
+    );
+  }
+}
+
+export function assertBlockNumber(field: string, block: number): void {
+  if (!Number.isInteger(block) || block < 0 || block > MAX_BLOCK_NUMBER) {
+    throw new PswapValidationError(
+      field,
+      `${block} is not a valid block number`,
+    );
+  }
+}
+
+export function assertSerial(serial: readonly bigint[]): void {
+  if (serial.length !== 4) {
+    throw new PswapValidationError(
+      "serial",
+      `expected 4 felts, got ${serial.length}`,
+    );
+  }
+  serial.forEach((felt, i) => assertFelt(`serial[${i}]`, felt));
+}
+
+/**
+ * Draw a serial number from `crypto.getRandomValues`. Each element is sampled
+ * uniformly below the field modulus (values >= p are redrawn, not reduced).
+ */
+export function randomSerial(): PswapSerial {
+  const serial: bigint[] = [];
+  const buffer = new BigUint64Array(1);
+  while (serial.length < 4) {
+    crypto.getRandomValues(buffer);
+    if (buffer[0] < FIELD_MODULUS) serial.push(buffer[0]);
+  }
+  return [serial[0], serial[1], serial[2], serial[3]];
+}
+
+/**
+ * Rebuild an account ID hex string from its prefix and suffix felts
+ * (matches AccountId::to_hex: 8-byte prefix followed by the top 7 bytes of the suffix)
+ */
+export function accountIdHexFromParts(prefix: bigint, suffix: bigint): string {
+  const hex = `0x${prefix.toString(16).padStart(16, "0")}${suffix.toString(16).padStart(16, "0")}`;
+  return hex.slice(0, 32);
+}
+
+/**
+ * Lay out PSWAP inputs as the 14 raw felt values the script expects
+ */
+export function encodePswapInputs(inputs: PswapInputs): bigint[] {
+  assertSwapAmount("requestedAmount", inputs.requestedAmount);
+  assertBlockNumber("expirationBlock", inputs.expirationBlock);
+  assertMinFillAmount(inputs.minFillAmount, inputs.requestedAmount);
+
+  const values: bigint[] = [
+    inputs.requestedAmount, // 0: requested_amount
+    BigInt(0), // 1: zero
+    inputs.requestedFaucetSuffix, // 2: faucet_suffix
+    inputs.requestedFaucetPrefix, // 3: faucet_prefix
+    BigInt(inputs.swappTag), // 4: swapp_tag
+    BigInt(inputs.p2idTag), // 5: p2id_tag
+    inputs.minFillAmount, // 6: min_fill_amount (empty before v3)
+    BigInt(0), // 7: empty
+    inputs.swapCount, // 8: swap_count
+    BigInt(inputs.expirationBlock), // 9: expiration_block
+    BigInt(0), // 10: empty
+    BigInt(0), // 11: empty
+    inputs.creatorPrefix, // 12: creator_prefix
+    inputs.creatorSuffix, // 13: creator_suffix
+  ];
+  values.forEach((value, i) => assertFelt(PSWAP_INPUT_NAMES[i], value));
+  return values;
+}
+
+/**
+ * Read the 14 raw felt values of a PSWAP note back into a structured view
+ */
+export function decodePswapInputs(values: readonly bigint[]): PswapInputs {
+  if (values.length !== PSWAP_INPUT_COUNT) {
+    throw new PswapValidationError(
+      "inputs",
+      `expected ${PSWAP_INPUT_COUNT} inputs, got ${values.length}`,
+    );
+  }
+
+  return {
+    requestedAmount: values[PswapInputIndex.REQUESTED_AMOUNT],
+    requestedFaucetSuffix: values[PswapInputIndex.REQUESTED_FAUCET_SUFFIX],
+    requestedFaucetPrefix: values[PswapInputIndex.REQUESTED_FAUCET_PREFIX],
+    swappTag: Number(values[PswapInputIndex.SWAPP_TAG]),
+    p2idTag: Number(values[PswapInputIndex.P2ID_TAG]),
+    swapCount: values[PswapInputIndex.SWAP_COUNT],
+    expirationBlock: Number(values[PswapInputIndex.EXPIRATION_BLOCK]),
+    minFillAmount: values[PswapInputIndex.MIN_FILL_AMOUNT],
+    creatorPrefix: values[PswapInputIndex.CREATOR_PREFIX],
+    creatorSuffix: values[PswapInputIndex.CREATOR_SUFFIX],
+  };
+}
@@ -0,0 +1,271 @@
+import type { NoteDetails, WebClient } from "@demox-labs/miden-sdk";
+import { checkNotes } from "@/lib/noteStatus";
+import { getRpcNotes } from "@/lib/rpcClient";
+import {
+  buildP2idRecipient,
+  leftoverSerialOf,
+  predictFillOutputs,
+  readPswapNote,
+  type PswapNoteState,
+} from "./fill";
+import type { PswapSerial } from "./layout";
+import { loadPswapScriptRegistry, resolvePswapVersion } from "./script";
+
+/**
+ * open: the live note is unspent; filled: the last fill consumed the whole
+ * offer; consumed: the live note was spent without a successor we can see
+ * (a reclaim, or a fill this client never synced); unknown: not checkable
+ */
+export type LineageStatus = "open" | "filled" | "consumed" | "unknown";
+
+export interface LineageFill {
+  /** SWAP_COUNT after this fill */
+  swapCount: bigint;
+  /** Note consumed by this fill */
+  filledNoteId: string;
+  fillAmount: bigint;
+  takerReceives: bigint;
+  p2idNoteId: string;
+  p2idOnChain: boolean;
+  leftoverNoteId: string | null;
+  leftoverOnChain: boolean;
+  /** Offered / requested amounts left after this fill */
+  remainingOffered: bigint;
+  remainingRequested: bigint;
+}
+
+export interface OrderLineage {
+  originNoteId: string;
+  creatorId: string;
+  offeredFaucetId: string;
+  requestedFaucetId: string;
+  originalOffered: bigint;
+  originalRequested: bigint;
+  fills: LineageFill[];
+  /** Latest note of the chain (the origin if it was never filled), null once filled */
+  liveNoteId: string | null;
+  remainingOffered: bigint;
+  remainingRequested: bigint;
+  status: LineageStatus;
+}
+
+function serialKey(serial: PswapSerial): string {
+  return serial.join(",");
+}
+
+/**
+ * Successor candidates among the notes this client has synced
+ */
+export interface KnownNotes {
+  /** PSWAP notes by serial number */
+  pswapBySerial: Map<string, NoteDetails>;
+  /** P2ID payback amounts by recipient digest */
+  p2idByRecipient: Map<string, bigint>;
+}
+
+/**
+ * Index the client's input notes as of its last sync. Build it once to trace
+ * several orders against the same sync.
+ */
+export async function indexKnownNotes(client: WebClient): Promise<KnownNotes> {
+  const { NoteFilter, NoteFilterTypes, NoteScript } = await import(
+    "@demox-labs/miden-sdk"
+  );
+
+  const registry = await loadPswapScriptRegistry(client);
+  const p2idRoot = NoteScript.p2id().root().toHex();
+  const records = await client.getInputNotes(
+    new NoteFilter(NoteFilterTypes.All),
+  );
+
+  const pswapBySerial = new Map<string, NoteDetails>();
+  const p2idByRecipient = new Map<string, bigint>();
+  for (const record of records) {
+    const details = record.details();
+    const recipient = details.recipient();
+    const root = recipient.script().root().toHex();
+
+    if (registry.byRoot(root)) {
+      const [s0, s1, s2, s3] = recipient.serialNum().toU64s();
+      pswapBySerial.set(serialKey([s0, s1, s2, s3]), details);
+    } else if (root === p2idRoot) {
+      const assets = details.assets().fungibleAssets();
+      if (assets.length === 1) {
+        p2idByRecipient.set(recipient.digest().toHex(), assets[0].amount());
+      }
+    }
+  }
+  return { pswapBySerial, p2idByRecipient };
+}
+
+async function findOnChain(noteIds: string[]): Promise<Set<string>> {
+  const results = await getRpcNotes(noteIds);
+  const failed = results.find(
+    (result) => result.status === "error" || result.status === "invalid",
+  );
+  if (failed?.status === "error" || failed?.status === "invalid") {
+    throw new Error(`could not look up ${failed.noteId}: ${failed.error}`);
+  }
+  return new Set(
+    results
+      .filter((result) => result.status === "found")
+      .map((result) => result.noteId),
+  );
+}
+
+async function loadOrigin(
+  client: WebClient,
+  noteId: string,
+): Promise<NoteDetails> {
+  const record = await client.getInputNote(noteId);
+  if (record) return record.details();
+
+  const [fetched] = await getRpcNotes([noteId]);
+  if (fetched.status === "error" || fetched.status === "invalid") {
+    throw new Error(`could not look up order ${noteId}: ${fetched.error}`);
+  }
+  const note =
+    fetched.status === "found" ? fetched.note.inputNote?.note() : undefined;
+  if (!note) {
+    throw new Error(
+      `order ${noteId} not found (private orders must be imported first)`,
+    );
+  }
+  return note;
+}
+
+/**
+ * The fill amount that consumed `state`, read from its successor leftover
+ * (remaining requested amount) or from its P2ID payback (paid amount)
+ */
+function findFillAmount(
+  state: PswapNoteState,
+  known: KnownNotes,
+  p2idDigest: string,
+): bigint | null {
+  const leftover = known.pswapBySerial.get(
+    serialKey(leftoverSerialOf(state.serial)),
+  );
+  if (leftover) {
+    const next = readPswapNote(leftover, state.version);
+    if (
+      next.creatorId === state.creatorId &&
+      next.inputs.swapCount === state.inputs.swapCount + BigInt(1)
+    ) {
+      return state.inputs.requestedAmount - next.inputs.requestedAmount;
+    }
+  }
+  return known.p2idByRecipient.get(p2idDigest) ?? null;
+}
+
+/**
+ * Follow an order from its original note through every partial fill.
+ *
+ * Successor IDs depend on the fill amount, so they cannot be derived from the
+ * serial alone: each step derives the leftover serial and the P2ID recipient,
+ * matches them against notes this client has synced (the maker's P2ID
+ * paybacks, or leftovers discovered through the swap tag), then predicts the
+ * exact successor IDs and confirms them with `getNotesById`.
+ *
+ * Pass `originDetails` when the original note is known locally (e.g. a
+ * persisted private order) to skip the store / RPC lookup. Pass `known` to
+ * trace against the client's last sync without syncing: the caller has
+ * already registered the order's swap tag. Without it, the tag is registered
+ * and the client syncs first.
+ */
+export async function traceOrderLineage(
+  client: WebClient,
+  originNoteId: string,
+  originDetails?: NoteDetails,
+  known?: KnownNotes,
+): Promise<OrderLineage> {
+  originDetails ??= await loadOrigin(client, originNoteId);
+  const origin = readPswapNote(
+    originDetails,
+    await resolvePswapVersion(client, originDetails),
+  );
+  if (!known) {
+    // Leftovers carry the same swap tag; tracking it lets later syncs see them
+    await client.addTag(origin.inputs.swappTag.toString(10));
+    await client.syncState();
+  }
+  const index = known ?? (await indexKnownNotes(client));
+
+  const fills: LineageFill[] = [];
+  let current: NoteDetails = originDetails;
+  let state = origin;
+  let status: LineageStatus = "unknown";
+
+  // Each fill increments SWAP_COUNT, so this ends at the live (or last) note
+  for (;;) {
+    const swapCount = state.inputs.swapCount + BigInt(1);
+    const p2idDigest = (await buildP2idRecipient(state, swapCount))
+      .digest()
+      .toHex();
+    const fillAmount = findFillAmount(state, index, p2idDigest);
+
+    if (fillAmount === null) {
+      // No visible successor: the current note is the live one, or it was
+      // consumed by a reclaim / a fill we never synced. A standalone trace
+      // imports the note so its nullifier is known.
+      const [lifecycle] = await checkNotes(client, [state.noteId], {
+        importPublicNotes: !known,
+      });
+      status =
+        lifecycle.status === "open"
+          ? "open"
+          : lifecycle.status === "consumed"
+            ? "consumed"
+            : "unknown";
+      break;
+    }
+
+    const prediction = await predictFillOutputs(
+      current,
+      fillAmount,
+      state.version,
+    );
+    const onChain = await findOnChain(
+      [prediction.p2id.noteId, prediction.leftover?.noteId].filter(
+        (id): id is string => !!id,
+      ),
+    );
+    fills.push({
+      swapCount,
+      filledNoteId: state.noteId,
+      fillAmount,
+      takerReceives: prediction.takerReceives,
+      p2idNoteId: prediction.p2id.noteId,
+      p2idOnChain: onChain.has(prediction.p2id.noteId),
+      leftoverNoteId: prediction.leftover?.noteId ?? null,
+      leftoverOnChain:
+        !!prediction.leftover && onChain.has(prediction.leftover.noteId),
+      remainingOffered: prediction.leftover?.amount ?? BigInt(0),
+      remainingRequested: prediction.leftover?.requestedAmount ?? BigInt(0),
+    });
+
+    if (!prediction.leftover) {
+      status = "filled";
+      break;
+    }
+    current = prediction.leftover.details;
+    state = readPswapNote(current, state.version);
+  }
+
+  const last = fills[fills.length - 1];
+  return {
+    originNoteId: origin.noteId,
+    creatorId: origin.creatorId,
+    offeredFaucetId: origin.offeredFaucetId,
+    requestedFaucetId: origin.requestedFaucetId,
+    originalOffered: origin.offeredAmount,
+    originalRequested: origin.inputs.requestedAmount,
+    fills,
+    liveNoteId: status === "filled" ? null : state.noteId,
+    remainingOffered: last ? last.remainingOffered : origin.offeredAmount,
+    remainingRequested: last
+      ? last.remainingRequested
+      : origin.inputs.requestedAmount,
+    status,
+  };
+}
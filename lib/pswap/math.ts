@@ -0,0 +1,118 @@
+/**
+ * PSWAP Price Calculation
+ *
+ * Bit-exact port of `calculate_tokens_a_for_b` in `lib/masm/pswap.ts`.
+ * The script does not compute `tokens_b_in * tokens_a / tokens_b` directly:
+ * it scales by FACTOR (1e5) with u64 wrapping multiplication and truncating
+ * u64 division, and recombines the u32 limbs of the result as a felt
+ * (`push.MAX_U32 mul add`), so its payout can differ from the ideal ratio.
+ */
+
+import { FIELD_MODULUS } from "./layout";
+
+/** Scaling factor used by the script (const.FACTOR) */
+export const PRICE_FACTOR = BigInt(100000);
+
+const U64_MODULUS = BigInt(1) << BigInt(64);
+
+/** `exec.u64::wrapping_mul` */
+function wrappingMul(a: bigint, b: bigint): bigint {
+  return (a * b) % U64_MODULUS;
+}
+
+/** `exec.u64::div`, which fails the transaction on a zero divisor */
+function u64Div(a: bigint, b: bigint): bigint {
+  if (b === BigInt(0)) {
+    throw new RangeError("calculate_tokens_a_for_b: u64 division by zero");
+  }
+  return a / b;
+}
+
+/** `push.MAX_U32 mul add`: hi * 2^32 + lo evaluated in the field */
+function recombine(value: bigint): bigint {
+  return value % FIELD_MODULUS;
+}
+
+export interface TokensAForBQuote {
+  /** Exact amount the script pays out */
+  tokensAOut: bigint;
+  /** Which branch of the procedure ran ("ratio" when tokens_b > tokens_a) */
+  branch: "ratio" | "direct";
+  /** Intermediate RATIO stored by the "ratio" branch, null otherwise */
+  ratio: bigint | null;
+  /** True if any wrapping_mul overflowed u64 or a result wrapped the field */
+  wrapped: boolean;
+  /** floor(tokensBIn * tokensA / tokensB), the ideal truncated payout */
+  idealOut: bigint;
+  /** idealOut - tokensAOut; positive when the taker receives less than ideal */
+  roundingLoss: bigint;
+  /** (ideal - actual) / ideal using the exact (untruncated) ideal ratio */
+  roundingLossRatio: number;
+}
+
+/**
+ * Port of `calculate_tokens_a_for_b` with rounding diagnostics against the
+ * ideal ratio `tokensBIn * tokensA / tokensB`.
+ */
+export function quoteTokensAForB(
+  tokensA: bigint,
+  tokensB: bigint,
+  tokensBIn: bigint,
+): TokensAForBQuote {
+  let tokensAOut: bigint;
+  let ratio: bigint | null = null;
+  let wrapped = false;
+
+  const mul = (a: bigint, b: bigint) => {
+    const product = wrappingMul(a, b);
+    if (product !== a * b) wrapped = true;
+    return product;
+  };
+  const felt = (value: bigint) => {
+    const reduced = recombine(value);
+    if (reduced !== value) wrapped = true;
+    return reduced;
+  };
+
+  if (tokensB > tokensA) {
+    // RATIO = (tokens_b * FACTOR) / tokens_a
+    ratio = felt(u64Div(mul(tokensB, PRICE_FACTOR), tokensA));
+    // tokens_a_out = (tokens_b_in * FACTOR) / RATIO
+    tokensAOut = felt(u64Div(mul(tokensBIn, PRICE_FACTOR), ratio));
+  } else {
+    // tokens_a_out = (((tokens_a * FACTOR) / tokens_b) * tokens_b_in) / FACTOR
+    // (the intermediate quotient stays as u64 limbs and is not recombined)
+    const scaled = u64Div(mul(tokensA, PRICE_FACTOR), tokensB);
+    tokensAOut = felt(u64Div(mul(scaled, tokensBIn), PRICE_FACTOR));
+  }
+
+  // tokens_b is non-zero here: the "direct" branch would have failed above
+  const numerator = tokensBIn * tokensA;
+  const idealOut = numerator / tokensB;
+  const exactIdeal = Number(numerator) / Number(tokensB);
+
+  return {
+    tokensAOut,
+    branch: ratio === null ? "direct" : "ratio",
+    ratio,
+    wrapped,
+    idealOut,
+    roundingLoss: idealOut - tokensAOut,
+    roundingLossRatio:
+      exactIdeal === 0 ? 0 : (exactIdeal - Number(tokensAOut)) / exactIdeal,
+  };
+}
+
+/**
+ * Amount of tokens_a (offered) the script pays out for `tokensBIn` of
+ * tokens_b (requested), given the note's current `tokensA` / `tokensB`.
+ *
+ * Throws a RangeError where the script itself would fail (u64 division by zero).
+ */
+export function calculateTokensAForB(
+  tokensA: bigint,
+  tokensB: bigint,
+  tokensBIn: bigint,
+): bigint {
+  return quoteTokensAForB(tokensA, tokensB, tokensBIn).tokensAOut;
+}
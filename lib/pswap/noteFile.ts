@@ -0,0 +1,84 @@
+import type { NoteFile, WebClient } from "@demox-labs/miden-sdk";
+
+/**
+ * Serialized PSWAP order handed from a maker to a single counterparty
+ */
+export interface ExportedPswapOrder {
+  noteId: string;
+  /** "Full" once the note is committed (includes the inclusion proof), "Details" otherwise */
+  exportType: "Full" | "Details";
+  bytes: Uint8Array;
+  base64: string;
+}
+
+export function noteFileToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function noteFileFromBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s+/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Save NoteFile bytes through the browser (the miden CLI uses the .mno extension)
+ */
+export function downloadNoteFile(bytes: Uint8Array, filename: string): void {
+  const url = URL.createObjectURL(
+    new Blob([bytes as BlobPart], { type: "application/octet-stream" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Export an order the maker created (an output note in the maker's store) as
+ * a NoteFile. Private orders are never published on chain, so this file is
+ * the only way a taker can learn the note's details.
+ */
+export async function exportPswapOrder(
+  client: WebClient,
+  noteId: string,
+): Promise<ExportedPswapOrder> {
+  let exportType: ExportedPswapOrder["exportType"] = "Full";
+  let noteFile: NoteFile;
+  try {
+    noteFile = await client.exportNoteFile(noteId, exportType);
+  } catch {
+    // Not committed yet: export the details and let the taker's sync find
+    // the inclusion proof; `exportType` tells the caller
+    exportType = "Details";
+    noteFile = await client.exportNoteFile(noteId, exportType);
+  }
+
+  const bytes = noteFile.serialize();
+  return { noteId, exportType, bytes, base64: noteFileToBase64(bytes) };
+}
+
+/**
+ * Import a NoteFile (raw bytes or base64 text) into the taker's store and
+ * sync so the note can be consumed. Returns the note ID.
+ */
+export async function importPswapOrder(
+  client: WebClient,
+  file: Uint8Array | string,
+): Promise<string> {
+  const { NoteFile } = await import("@demox-labs/miden-sdk");
+
+  const bytes = typeof file === "string" ? noteFileFromBase64(file) : file;
+  const noteId = await client.importNoteFile(NoteFile.deserialize(bytes));
+  await client.syncState();
+  return noteId.toString();
+}
@@ -0,0 +1,205 @@
+import type {
+  AccountId,
+  Note,
+  NoteTag,
+  NoteType,
+  TransactionRequest,
+  WebClient,
+} from "@demox-labs/miden-sdk";
+import {
+  assertBlockNumber,
+  assertMinFillAmount,
+  assertSerial,
+  assertSwapAmount,
+  PswapValidationError,
+  randomSerial,
+  type PswapInputs,
+  type PswapSerial,
+} from "./layout";
+import { assertP2idScriptRoot, compilePswapScript } from "./script";
+import { buildSwapTag } from "./tags";
+import { CURRENT_PSWAP_VERSION, type PswapScriptVersion } from "./versions";
+
+export interface PswapAssetSpec {
+  /** Faucet account ID as hex string */
+  faucetId: string;
+  amount: bigint;
+}
+
+export interface CreatePswapOrderParams {
+  /** Maker (creator) account ID as hex string */
+  maker: string;
+  offered: PswapAssetSpec;
+  requested: PswapAssetSpec;
+  /** Block height after which the note expires (0 = no expiration) */
+  expirationBlock?: number;
+  /**
+   * Smallest partial fill of the requested asset a taker may make (default
+   * 0 = any size). A fill of everything that remains is always accepted.
+   */
+  minFillAmount?: bigint;
+  /** Defaults to NoteType.Public */
+  noteType?: NoteType;
+  /**
+   * Defaults to a random serial. Reusing a serial for identical orders makes
+   * their notes collide; persist `PswapOrder.serial` to derive successors.
+   */
+  serial?: PswapSerial;
+}
+
+export interface PswapOrder {
+  note: Note;
+  noteId: string;
+  /** Transaction request that outputs the note from the maker's account */
+  request: TransactionRequest;
+  inputs: PswapInputs;
+  serial: PswapSerial;
+  swappTag: NoteTag;
+  p2idTag: NoteTag;
+  /** Script version the note runs (always the current one) */
+  version: PswapScriptVersion;
+}
+
+async function parseAccountId(field: string, hex: string): Promise<AccountId> {
+  const { AccountId } = await import("@demox-labs/miden-sdk");
+  try {
+    return AccountId.fromHex(hex);
+  } catch {
+    throw new PswapValidationError(field, `invalid account ID "${hex}"`);
+  }
+}
+
+/**
+ * Build a PSWAP note offering `offered` for `requested`, along with the
+ * transaction request the maker executes to publish it. Throws
+ * `P2idScriptMismatchError` if the SDK's P2ID script is not the pinned one.
+ */
+export async function createPswapOrder(
+  client: WebClient,
+  params: CreatePswapOrderParams,
+): Promise<PswapOrder> {
+  const {
+    Felt,
+    FungibleAsset,
+    MidenArrays,
+    Note,
+    NoteAssets,
+    NoteExecutionHint,
+    NoteInputs,
+    NoteMetadata,
+    NoteRecipient,
+    NoteTag,
+    NoteType,
+    OutputNote,
+    TransactionRequestBuilder,
+    Word,
+  } = await import("@demox-labs/miden-sdk");
+
+  const version = CURRENT_PSWAP_VERSION;
+  const noteType = params.noteType ?? NoteType.Public;
+  const expirationBlock = params.expirationBlock ?? 0;
+  const minFillAmount = params.minFillAmount ?? BigInt(0);
+
+  // Validate everything up front so no WASM objects are built for a bad order
+  if (noteType !== NoteType.Public && noteType !== NoteType.Private) {
+    throw new PswapValidationError(
+      "noteType",
+      "only public and private PSWAP notes are supported",
+    );
+  }
+  assertSwapAmount("offered.amount", params.offered.amount);
+  assertSwapAmount("requested.amount", params.requested.amount);
+  assertBlockNumber("expirationBlock", expirationBlock);
+  assertMinFillAmount(minFillAmount, params.requested.amount);
+  const serial = params.serial ?? randomSerial();
+  assertSerial(serial);
+  await assertP2idScriptRoot();
+
+  const makerId = await parseAccountId("maker", params.maker);
+  const offeredFaucetId = await parseAccountId(
+    "offered.faucetId",
+    params.offered.faucetId,
+  );
+  const requestedFaucetId = await parseAccountId(
+    "requested.faucetId",
+    params.requested.faucetId,
+  );
+
+  if (makerId.isFaucet()) {
+    throw new PswapValidationError("maker", "maker must be a wallet account");
+  }
+  if (!offeredFaucetId.isFaucet()) {
+    throw new PswapValidationError("offered.faucetId", "not a faucet account");
+  }
+  if (!requestedFaucetId.isFaucet()) {
+    throw new PswapValidationError(
+      "requested.faucetId",
+      "not a faucet account",
+    );
+  }
+  if (offeredFaucetId.toString() === requestedFaucetId.toString()) {
+    throw new PswapValidationError(
+      "requested.faucetId",
+      "offered and requested assets must differ",
+    );
+  }
+
+  // Swap tags must be built from the asset pair, NOT fromAccountId
+  const swappTag = await buildSwapTag(
+    noteType,
+    offeredFaucetId,
+    requestedFaucetId,
+  );
+  // P2ID goes to maker, so this stays account-based
+  const p2idTag = NoteTag.fromAccountId(makerId);
+
+  const inputs: PswapInputs = {
+    requestedAmount: params.requested.amount,
+    requestedFaucetSuffix: requestedFaucetId.suffix().asInt(),
+    requestedFaucetPrefix: requestedFaucetId.prefix().asInt(),
+    swappTag: swappTag.asU32(),
+    p2idTag: p2idTag.asU32(),
+    swapCount: BigInt(0),
+    expirationBlock,
+    minFillAmount,
+    creatorPrefix: makerId.prefix().asInt(),
+    creatorSuffix: makerId.suffix().asInt(),
+  };
+  const noteInputs = new NoteInputs(
+    new MidenArrays.FeltArray(
+      version.inputs.encode(inputs).map((value) => new Felt(value)),
+    ),
+  );
+
+  const noteScript = await compilePswapScript(client, version);
+  const noteAssets = new NoteAssets([
+    new FungibleAsset(offeredFaucetId, params.offered.amount),
+  ]);
+  const noteMetadata = new NoteMetadata(
+    makerId,
+    noteType,
+    swappTag,
+    NoteExecutionHint.always(),
+    new Felt(BigInt(0)),
+  );
+  const serialNum = new Word(new BigUint64Array(serial));
+  const recipient = new NoteRecipient(serialNum, noteScript, noteInputs);
+  const note = new Note(noteAssets, noteMetadata, recipient);
+
+  const request = new TransactionRequestBuilder()
+    .withOwnOutputNotes(
+      new MidenArrays.OutputNoteArray([OutputNote.full(note)]),
+    )
+    .build();
+
+  return {
+    note,
+    noteId: note.id().toString(),
+    request,
+    inputs,
+    serial: [...serial],
+    swappTag,
+    p2idTag,
+    version,
+  };
+}
@@ -0,0 +1,210 @@
+import type { NoteDetails, WebClient } from "@demox-labs/miden-sdk";
+import { getExpiryStatus } from "./expiry";
+import {
+  readPswapNote,
+  type MalformedPswapNote,
+  type PswapNoteState,
+} from "./fill";
+import { loadPswapScriptRegistry } from "./script";
+import { buildSwapTag } from "./tags";
+
+export type OrderBookSide = "bid" | "ask";
+
+export interface OrderBookEntry {
+  noteId: string;
+  side: OrderBookSide;
+  /** Quote units per base unit */
+  price: number;
+  /** Base asset amount: offered by asks, requested by bids */
+  size: bigint;
+  /** Quote asset amount: requested by asks, offered by bids */
+  total: bigint;
+  /** Cumulative base size from the top of the book down to this entry */
+  depth: bigint;
+  creatorId: string;
+  swapCount: bigint;
+  /** 0 = no expiration */
+  expirationBlock: number;
+}
+
+export interface OrderBook {
+  baseFaucetId: string;
+  quoteFaucetId: string;
+  /** Orders buying base for quote, best (highest) price first */
+  bids: OrderBookEntry[];
+  /** Orders selling base for quote, best (lowest) price first */
+  asks: OrderBookEntry[];
+  /** Swap tags registered for the pair (base->quote, quote->base) */
+  tags: number[];
+  syncHeight: number;
+  /** PSWAP notes of the pair's tags that could not be decoded */
+  malformed: MalformedPswapNote[];
+}
+
+/**
+ * A consumable PSWAP note found for a pair, with its details kept for filling
+ */
+export interface DiscoveredOrder {
+  details: NoteDetails;
+  state: PswapNoteState;
+}
+
+export interface PairDiscovery {
+  orders: DiscoveredOrder[];
+  /** Swap tags registered for the pair (base->quote, quote->base) */
+  tags: number[];
+  syncHeight: number;
+  /** Consumable notes running a known PSWAP script that could not be decoded */
+  malformed: MalformedPswapNote[];
+}
+
+function withDepth(entries: OrderBookEntry[]): OrderBookEntry[] {
+  let depth = BigInt(0);
+  return entries.map((entry) => {
+    depth += entry.size;
+    return { ...entry, depth };
+  });
+}
+
+/**
+ * Sort decoded PSWAP notes for a pair into bids and asks. Notes for any
+ * other pair, and expired notes, are left out.
+ */
+export function buildOrderBook(
+  orders: PswapNoteState[],
+  baseFaucetId: string,
+  quoteFaucetId: string,
+  syncHeight: number,
+  tags: number[] = [],
+): OrderBook {
+  const base = baseFaucetId.toLowerCase();
+  const quote = quoteFaucetId.toLowerCase();
+
+  const bids: OrderBookEntry[] = [];
+  const asks: OrderBookEntry[] = [];
+  for (const order of orders) {
+    const { expirationBlock } = order.inputs;
+    if (getExpiryStatus(expirationBlock, syncHeight, order.version).expired) {
+      continue;
+    }
+
+    const offered = order.offeredFaucetId.toLowerCase();
+    const requested = order.requestedFaucetId.toLowerCase();
+    const entry = {
+      noteId: order.noteId,
+      creatorId: order.creatorId,
+      swapCount: order.inputs.swapCount,
+      expirationBlock: order.inputs.expirationBlock,
+      depth: BigInt(0),
+    };
+
+    if (offered === base && requested === quote) {
+      // Selling base: offers base, requests quote
+      asks.push({
+        ...entry,
+        side: "ask",
+        size: order.offeredAmount,
+        total: order.inputs.requestedAmount,
+        price:
+          Number(order.inputs.requestedAmount) / Number(order.offeredAmount),
+      });
+    } else if (offered === quote && requested === base) {
+      // Buying base: offers quote, requests base
+      bids.push({
+        ...entry,
+        side: "bid",
+        size: order.inputs.requestedAmount,
+        total: order.offeredAmount,
+        price:
+          Number(order.offeredAmount) / Number(order.inputs.requestedAmount),
+      });
+    }
+  }
+
+  asks.sort((a, b) => a.price - b.price);
+  bids.sort((a, b) => b.price - a.price);
+
+  return {
+    baseFaucetId,
+    quoteFaucetId,
+    bids: withDepth(bids),
+    asks: withDepth(asks),
+    tags,
+    syncHeight,
+    malformed: [],
+  };
+}
+
+/**
+ * Discover public PSWAP orders for a pair: register the swap tag of both
+ * directions, sync, and decode every consumable note running a known PSWAP
+ * script version. Notes of other pairs sharing a tag are returned too;
+ * `buildOrderBook` filters them out.
+ */
+export async function discoverPairOrders(
+  client: WebClient,
+  baseFaucetId: string,
+  quoteFaucetId: string,
+): Promise<PairDiscovery> {
+  const { AccountId, NoteType } = await import("@demox-labs/miden-sdk");
+
+  const base = AccountId.fromHex(baseFaucetId);
+  const quote = AccountId.fromHex(quoteFaucetId);
+  const tags = [
+    (await buildSwapTag(NoteType.Public, base, quote)).asU32(),
+    (await buildSwapTag(NoteType.Public, quote, base)).asU32(),
+  ];
+  for (const tag of tags) {
+    await client.addTag(tag.toString(10));
+  }
+  await client.syncState();
+  const syncHeight = await client.getSyncHeight();
+
+  const registry = await loadPswapScriptRegistry(client);
+  const consumable = await client.getConsumableNotes();
+
+  const seen = new Set<string>();
+  const orders: DiscoveredOrder[] = [];
+  const malformed: MalformedPswapNote[] = [];
+  for (const consumableNote of consumable) {
+    const record = consumableNote.inputNoteRecord();
+    const noteId = record.id().toString();
+    if (seen.has(noteId)) continue;
+    seen.add(noteId);
+
+    const details = record.details();
+    const version = registry.versionOf(details);
+    if (!version) continue;
+
+    try {
+      orders.push({ details, state: readPswapNote(details, version) });
+    } catch (error) {
+      malformed.push({ noteId, error });
+    }
+  }
+
+  return { orders, tags, syncHeight, malformed };
+}
+
+/**
+ * Load the order book for a pair (see `discoverPairOrders`)
+ */
+export async function loadOrderBook(
+  client: WebClient,
+  baseFaucetId: string,
+  quoteFaucetId: string,
+): Promise<OrderBook> {
+  const { orders, tags, syncHeight, malformed } = await discoverPairOrders(
+    client,
+    baseFaucetId,
+    quoteFaucetId,
+  );
+  const book = buildOrderBook(
+    orders.map((order) => order.state),
+    baseFaucetId,
+    quoteFaucetId,
+    syncHeight,
+    tags,
+  );
+  return { ...book, malformed };
+}
@@ -0,0 +1,68 @@
+import type { TransactionRequest, WebClient } from "@demox-labs/miden-sdk";
+import {
+  readPswapNote,
+  type MalformedPswapNote,
+  type PswapNoteState,
+} from "./fill";
+import { loadPswapScriptRegistry } from "./script";
+
+/**
+ * Build the creator's reclaim transaction. Consuming a PSWAP note from the
+ * creator account takes the `handle_reclaim` path (early cancel, or recovery
+ * after expiration) and creates no output notes.
+ */
+export async function buildReclaimRequest(
+  noteId: string,
+): Promise<TransactionRequest> {
+  const { MidenArrays, NoteId, NoteIdAndArgs, TransactionRequestBuilder } =
+    await import("@demox-labs/miden-sdk");
+
+  return new TransactionRequestBuilder()
+    .withAuthenticatedInputNotes(
+      new MidenArrays.NoteIdAndArgsArray([
+        new NoteIdAndArgs(NoteId.fromHex(noteId), null),
+      ]),
+    )
+    .build();
+}
+
+export interface OpenOrders {
+  orders: PswapNoteState[];
+  /** PSWAP notes in the store that could not be decoded, whatever their maker */
+  malformed: MalformedPswapNote[];
+}
+
+/**
+ * Committed, unconsumed PSWAP notes in the client's store created by
+ * `makerId`. After a partial fill the consumed note drops out and its
+ * leftover takes its place, so this always returns the latest note of each order.
+ */
+export async function findOpenOrders(
+  client: WebClient,
+  makerId: string,
+): Promise<OpenOrders> {
+  const { NoteFilter, NoteFilterTypes } = await import("@demox-labs/miden-sdk");
+
+  const registry = await loadPswapScriptRegistry(client);
+  const records = await client.getInputNotes(
+    new NoteFilter(NoteFilterTypes.Committed),
+  );
+
+  const orders: PswapNoteState[] = [];
+  const malformed: MalformedPswapNote[] = [];
+  for (const record of records) {
+    const details = record.details();
+    const version = registry.versionOf(details);
+    if (!version) continue;
+
+    try {
+      const state = readPswapNote(details, version);
+      if (state.creatorId.toLowerCase() === makerId.toLowerCase()) {
+        orders.push(state);
+      }
+    } catch (error) {
+      malformed.push({ noteId: record.id().toString(), error });
+    }
+  }
+  return { orders, malformed };
+}
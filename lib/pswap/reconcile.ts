@@ -0,0 +1,214 @@
+import type {
+  AssetAmount,
+  OutputNoteSummary,
+  TransactionOutcome,
+} from "@/lib/transaction";
+import type { FillPrediction, PredictedNote } from "./fill";
+
+/**
+ * Reconcile the output notes of a fill with the notes `predictFillOutputs`
+ * expected. Run on the executed transaction before proving (preview) and on
+ * the submitted one (receipt), so a wrong serial, a rounding difference in an
+ * amount or a wrong tag shows up as a field-level diff.
+ */
+
+export type PredictedNoteRole = "p2id" | "leftover";
+
+export interface OutputFieldCheck {
+  field: "noteId" | "recipient" | "serial" | "assets" | "tag" | "noteType";
+  expected: string;
+  actual: string;
+  ok: boolean;
+}
+
+export interface PredictedNoteDiff {
+  role: PredictedNoteRole;
+  /** ID (hex) of the PSWAP note whose fill predicted this output */
+  filledNoteId: string;
+  expectedNoteId: string;
+  /** Output note matched by ID or recipient, null when the script did not create it */
+  actual: OutputNoteSummary | null;
+  checks: OutputFieldCheck[];
+  ok: boolean;
+}
+
+export interface FillOutputDiff {
+  notes: PredictedNoteDiff[];
+  /** Output notes that match no prediction */
+  unexpected: OutputNoteSummary[];
+  ok: boolean;
+}
+
+/**
+ * Output notes of a submitted fill reconciled with the prediction
+ */
+export interface FillReceipt {
+  transactionId: string;
+  outputs: OutputNoteSummary[];
+  diff: FillOutputDiff;
+}
+
+export function formatAssets(assets: AssetAmount[]): string {
+  if (assets.length === 0) return "none";
+  return assets
+    .map((asset) => `${asset.amount} of ${asset.faucetId}`)
+    .join(", ");
+}
+
+function diffNote(
+  role: PredictedNoteRole,
+  filledNoteId: string,
+  predicted: PredictedNote,
+  outputs: OutputNoteSummary[],
+  claimed: Set<OutputNoteSummary>,
+): PredictedNoteDiff {
+  const recipient = predicted.recipient.digest().toHex();
+  const actual =
+    outputs.find(
+      (note) => !claimed.has(note) && note.noteId === predicted.noteId,
+    ) ??
+    outputs.find(
+      (note) => !claimed.has(note) && note.recipientDigest === recipient,
+    ) ??
+    null;
+  if (!actual) {
+    return {
+      role,
+      filledNoteId,
+      expectedNoteId: predicted.noteId,
+      actual: null,
+      checks: [],
+      ok: false,
+    };
+  }
+  claimed.add(actual);
+
+  const check = (
+    field: OutputFieldCheck["field"],
+    expected: string,
+    actualValue: string,
+  ): OutputFieldCheck => ({
+    field,
+    expected,
+    actual: actualValue,
+    ok: expected === actualValue,
+  });
+  const checks = [
+    check("noteId", predicted.noteId, actual.noteId),
+    check("recipient", recipient, actual.recipientDigest ?? "unknown"),
+    check(
+      "serial",
+      predicted.serial.join(","),
+      actual.serial?.join(",") ?? "unknown",
+    ),
+    check(
+      "assets",
+      formatAssets([{ faucetId: predicted.faucetId, amount: predicted.amount }]),
+      formatAssets(actual.assets),
+    ),
+    check("tag", predicted.tag.toString(), actual.tag.toString()),
+    // Fills always create public paybacks and leftovers
+    check("noteType", "public", actual.noteType),
+  ];
+  return {
+    role,
+    filledNoteId,
+    expectedNoteId: predicted.noteId,
+    actual,
+    checks,
+    ok: checks.every((c) => c.ok),
+  };
+}
+
+/**
+ * Diff output notes against the predicted P2ID and leftover of one fill, or
+ * of every fill of a multi-fill transaction
+ */
+export function diffFillOutputs(
+  predictions: FillPrediction | FillPrediction[],
+  outputs: OutputNoteSummary[],
+): FillOutputDiff {
+  const claimed = new Set<OutputNoteSummary>();
+  const notes: PredictedNoteDiff[] = [];
+  for (const prediction of [predictions].flat()) {
+    notes.push(
+      diffNote("p2id", prediction.noteId, prediction.p2id, outputs, claimed),
+    );
+    if (prediction.leftover) {
+      notes.push(
+        diffNote(
+          "leftover",
+          prediction.noteId,
+          prediction.leftover,
+          outputs,
+          claimed,
+        ),
+      );
+    }
+  }
+  const unexpected = outputs.filter((note) => !claimed.has(note));
+  return {
+    notes,
+    unexpected,
+    ok: notes.every((note) => note.ok) && unexpected.length === 0,
+  };
+}
+
+export function buildFillReceipt(
+  predictions: FillPrediction | FillPrediction[],
+  outcome: TransactionOutcome,
+): FillReceipt {
+  return {
+    transactionId: outcome.transactionId,
+    outputs: outcome.outputs,
+    diff: diffFillOutputs(predictions, outcome.outputs),
+  };
+}
+
+/**
+ * Log lines for a diff: one line per predicted note, one per mismatching
+ * field, one per unexpected output
+ */
+export function describeFillDiff(diff: FillOutputDiff): string[] {
+  const lines: string[] = [];
+  for (const note of diff.notes) {
+    if (!note.actual) {
+      lines.push(
+        `✗ ${note.role} ${note.expectedNoteId} (fill of ${note.filledNoteId}) was not created`,
+      );
+      continue;
+    }
+    lines.push(
+      `${note.ok ? "✓" : "✗"} ${note.role} ${note.actual.noteId}: ${formatAssets(note.actual.assets)}`,
+    );
+    for (const check of note.checks.filter((c) => !c.ok)) {
+      lines.push(
+        `    wrong ${check.field}: expected ${check.expected}, got ${check.actual}`,
+      );
+    }
+  }
+  for (const note of diff.unexpected) {
+    lines.push(
+      `✗ unexpected ${note.noteType} note ${note.noteId} (tag ${note.tag}): ${formatAssets(note.assets)}`,
+    );
+  }
+  return lines;
+}
+
+/**
+ * Log lines for a receipt: every output note with its assets and recipient,
+ * then the reconciliation against the prediction
+ */
+export function formatFillReceipt(receipt: FillReceipt): string[] {
+  return [
+    `Receipt for ${receipt.transactionId}: ${receipt.outputs.length} output note(s)`,
+    ...receipt.outputs.map(
+      (note) =>
+        `  ${note.noteId} (${note.noteType}, tag ${note.tag}) → recipient ${note.recipientDigest ?? "unknown"}: ${formatAssets(note.assets)}`,
+    ),
+    receipt.diff.ok
+      ? "All outputs match the prediction"
+      : "Outputs DO NOT match the prediction:",
+    ...describeFillDiff(receipt.diff),
+  ];
+}
@@ -0,0 +1,165 @@
+import type {
+  Note,
+  NoteDetails,
+  NoteScript,
+  WebClient,
+} from "@demox-labs/miden-sdk";
+import { P2ID_SCRIPT_ROOT } from "@/lib/masm/pswap";
+import { isSwapTag } from "./tags";
+import {
+  CURRENT_PSWAP_VERSION,
+  PSWAP_SCRIPT_VERSIONS,
+  type PswapScriptVersion,
+} from "./versions";
+
+/**
+ * Pinned P2ID script root compared with the loaded SDK's
+ */
+export interface P2idRootCheck {
+  ok: boolean;
+  /** `P2ID_SCRIPT_ROOT`, as felts joined by "." */
+  expected: string;
+  /** `NoteScript.p2id().root()` of the loaded SDK */
+  actual: string;
+}
+
+/**
+ * The loaded SDK's P2ID script differs from the one the PSWAP script was
+ * written against: paybacks created now could not be consumed as expected
+ */
+export class P2idScriptMismatchError extends Error {
+  constructor(public readonly check: P2idRootCheck) {
+    super(
+      `SDK P2ID script root ${check.actual} differs from the pinned ${check.expected}; refusing to create PSWAP orders`,
+    );
+    this.name = "P2idScriptMismatchError";
+  }
+}
+
+/**
+ * The note's script root matches no version in `PSWAP_SCRIPT_VERSIONS`
+ */
+export class UnknownPswapScriptError extends Error {
+  constructor(
+    public readonly noteId: string,
+    public readonly scriptRoot: string,
+  ) {
+    super(`note ${noteId} uses unknown PSWAP script ${scriptRoot}`);
+    this.name = "UnknownPswapScriptError";
+  }
+}
+
+/**
+ * Root of the SDK's standard P2ID script, as 4 felts in `Word` order
+ */
+export async function getP2idScriptRoot(): Promise<bigint[]> {
+  const { NoteScript } = await import("@demox-labs/miden-sdk");
+  return Array.from(NoteScript.p2id().root().toU64s());
+}
+
+export async function checkP2idScriptRoot(): Promise<P2idRootCheck> {
+  const expected = P2ID_SCRIPT_ROOT.join(".");
+  const actual = (await getP2idScriptRoot()).join(".");
+  return { ok: expected === actual, expected, actual };
+}
+
+/**
+ * Throw `P2idScriptMismatchError` unless the SDK's P2ID root is the pinned one
+ */
+export async function assertP2idScriptRoot(): Promise<void> {
+  const check = await checkP2idScriptRoot();
+  if (!check.ok) throw new P2idScriptMismatchError(check);
+}
+
+/**
+ * Compile a PSWAP script version (default: the current one) with the client's
+ * script builder, paying back through the loaded SDK's P2ID script
+ */
+export async function compilePswapScript(
+  client: WebClient,
+  version: PswapScriptVersion = CURRENT_PSWAP_VERSION,
+): Promise<NoteScript> {
+  const builder = client.createScriptBuilder();
+  return builder.compileNoteScript(
+    version.masm(await getP2idScriptRoot()),
+  );
+}
+
+/**
+ * How a note relates to the known PSWAP scripts
+ */
+export type PswapScriptMatch =
+  | { kind: "pswap"; version: PswapScriptVersion }
+  /** Carries a swap tag but runs a script no known version compiles to */
+  | { kind: "unknown-script"; scriptRoot: string }
+  | { kind: "other"; scriptRoot: string };
+
+export interface PswapScriptRegistry {
+  /** Every known version with its compiled root (hex) */
+  scripts: { version: PswapScriptVersion; root: string }[];
+  byRoot: (root: string) => PswapScriptVersion | null;
+  /** Version of the script `note` runs, null if unknown */
+  versionOf: (note: Note | NoteDetails) => PswapScriptVersion | null;
+  match: (note: Note) => PswapScriptMatch;
+}
+
+/** Compiled roots by version ID; they only depend on the MASM and P2ID root */
+const compiledRoots = new Map<string, Promise<string>>();
+
+/**
+ * Compile every known PSWAP version once and index them by script root
+ */
+export async function loadPswapScriptRegistry(
+  client: WebClient,
+): Promise<PswapScriptRegistry> {
+  const scripts = await Promise.all(
+    PSWAP_SCRIPT_VERSIONS.map(async (version) => {
+      let root = compiledRoots.get(version.id);
+      if (!root) {
+        root = compilePswapScript(client, version).then((script) =>
+          script.root().toHex(),
+        );
+        compiledRoots.set(version.id, root);
+        root.catch(() => compiledRoots.delete(version.id));
+      }
+      return { version, root: await root };
+    }),
+  );
+
+  const byRoot = (root: string) =>
+    scripts.find((script) => script.root === root)?.version ?? null;
+  const versionOf = (note: Note | NoteDetails) =>
+    byRoot(note.recipient().script().root().toHex());
+
+  return {
+    scripts,
+    byRoot,
+    versionOf,
+    match: (note) => {
+      const version = versionOf(note);
+      if (version) return { kind: "pswap", version };
+      const scriptRoot = note.recipient().script().root().toHex();
+      return isSwapTag(note.metadata().tag().asU32())
+        ? { kind: "unknown-script", scriptRoot }
+        : { kind: "other", scriptRoot };
+    },
+  };
+}
+
+/**
+ * Version of the PSWAP script `note` runs. Throws `UnknownPswapScriptError`
+ * for notes of any other script.
+ */
+export async function resolvePswapVersion(
+  client: WebClient,
+  note: Note | NoteDetails,
+): Promise<PswapScriptVersion> {
+  const version = (await loadPswapScriptRegistry(client)).versionOf(note);
+  if (!version) {
+    throw new UnknownPswapScriptError(
+      note.id().toString(),
+      note.recipient().script().root().toHex(),
+    );
+  }
+  return version;
+}
@@ -0,0 +1,146 @@
+import type { TransactionRequest } from "@demox-labs/miden-sdk";
+import {
+  buildMultiFillRequest,
+  isBelowMinFill,
+  predictFillOutputs,
+  type FillPrediction,
+  type FillRequestOptions,
+} from "./fill";
+import { assertSwapAmount, PswapValidationError } from "./layout";
+import {
+  buildOrderBook,
+  type DiscoveredOrder,
+  type OrderBookEntry,
+} from "./orderBook";
+
+/** Default cap on notes consumed by one sweep, to keep proving time bounded */
+export const DEFAULT_MAX_SWEEP_ORDERS = 8;
+
+export interface SweepParams {
+  baseFaucetId: string;
+  quoteFaucetId: string;
+  /** "buy" takes asks (pays quote), "sell" takes bids (pays base) */
+  side: "buy" | "sell";
+  /** Amount of the asset the taker pays (the fill amount summed across notes) */
+  targetAmount: bigint;
+  /** Book price (quote per base): the highest to buy at, the lowest to sell at */
+  priceLimit: number;
+  maxOrders?: number;
+}
+
+export interface SweepLeg {
+  entry: OrderBookEntry;
+  prediction: FillPrediction;
+}
+
+export interface SweepPlan {
+  legs: SweepLeg[];
+  /** Sum of fill amounts (asset the taker pays) */
+  totalPaid: bigint;
+  /** Sum of payouts (asset the taker receives) */
+  totalReceived: bigint;
+  /** Part of the target that the book could not fill within the limit */
+  unfilled: bigint;
+  /** Quote per base across all legs, null if nothing was filled */
+  averagePrice: number | null;
+}
+
+/**
+ * Pick the best-priced orders on one side of the book until `targetAmount`
+ * is paid or the price limit is crossed, predicting every fill's outputs.
+ * Orders created by `takerId` are skipped: consuming its own note takes the
+ * script's reclaim path, which creates none of the predicted outputs.
+ */
+export async function planSweep(
+  orders: DiscoveredOrder[],
+  params: SweepParams,
+  syncHeight: number,
+  takerId: string,
+): Promise<SweepPlan> {
+  assertSwapAmount("targetAmount", params.targetAmount);
+  if (!Number.isFinite(params.priceLimit) || params.priceLimit <= 0) {
+    throw new PswapValidationError(
+      "priceLimit",
+      `${params.priceLimit} is not a positive price`,
+    );
+  }
+  const maxOrders = params.maxOrders ?? DEFAULT_MAX_SWEEP_ORDERS;
+  const taker = takerId.toLowerCase();
+
+  const book = buildOrderBook(
+    orders.map((order) => order.state),
+    params.baseFaucetId,
+    params.quoteFaucetId,
+    syncHeight,
+  );
+  const entries = params.side === "buy" ? book.asks : book.bids;
+  const byNoteId = new Map(orders.map((order) => [order.state.noteId, order]));
+
+  const legs: SweepLeg[] = [];
+  let remaining = params.targetAmount;
+  for (const entry of entries) {
+    if (remaining === BigInt(0) || legs.length >= maxOrders) break;
+    const withinLimit =
+      params.side === "buy"
+        ? entry.price <= params.priceLimit
+        : entry.price >= params.priceLimit;
+    // Entries are sorted best first, so nothing further fits either
+    if (!withinLimit) break;
+
+    const order = byNoteId.get(entry.noteId);
+    if (!order || entry.creatorId.toLowerCase() === taker) continue;
+
+    const available = order.state.inputs.requestedAmount;
+    const fillAmount = remaining < available ? remaining : available;
+    // The maker rejects partial fills below their minimum
+    if (isBelowMinFill(order.state.inputs, fillAmount)) continue;
+    const prediction = await predictFillOutputs(
+      order.details,
+      fillAmount,
+      order.state.version,
+    );
+    // A fill too small to pay out anything after rounding only costs the taker
+    if (prediction.takerReceives === BigInt(0)) continue;
+
+    legs.push({ entry, prediction });
+    remaining -= fillAmount;
+  }
+
+  const totalPaid = legs.reduce(
+    (sum, leg) => sum + leg.prediction.fillAmount,
+    BigInt(0),
+  );
+  const totalReceived = legs.reduce(
+    (sum, leg) => sum + leg.prediction.takerReceives,
+    BigInt(0),
+  );
+  let averagePrice: number | null = null;
+  if (legs.length > 0) {
+    averagePrice =
+      params.side === "buy"
+        ? Number(totalPaid) / Number(totalReceived)
+        : Number(totalReceived) / Number(totalPaid);
+  }
+
+  return {
+    legs,
+    totalPaid,
+    totalReceived,
+    unfilled: params.targetAmount - totalPaid,
+    averagePrice,
+  };
+}
+
+/**
+ * One transaction consuming every note in the plan, so the sweep fills
+ * completely or not at all
+ */
+export async function buildSweepRequest(
+  plan: SweepPlan,
+  opts: FillRequestOptions = {},
+): Promise<TransactionRequest> {
+  return buildMultiFillRequest(
+    plan.legs.map((leg) => leg.prediction),
+    opts,
+  );
+}
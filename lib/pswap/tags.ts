@@ -0,0 +1,49 @@
+import type { AccountId, NoteTag, NoteType } from "@demox-labs/miden-sdk";
+
+const SWAP_USE_CASE_ID = 0;
+
+/**
+ * Top 8 bits (56..63) of a faucet ID prefix, used as the asset tag
+ */
+export function assetTagOf(faucetId: AccountId): number {
+  const prefix = faucetId.prefix().asInt();
+  return Number((prefix >> BigInt(56)) & BigInt(0xff));
+}
+
+/**
+ * Build swap tag from asset pair (per Miden team feedback)
+ * Tag payload is constructed by taking asset tags (8 bits of each faucet ID prefix)
+ * and concatenating them: offered_asset_tag + requested_asset_tag.
+ */
+export async function buildSwapTag(
+  noteType: NoteType,
+  offeredFaucetId: AccountId,
+  requestedFaucetId: AccountId,
+): Promise<NoteTag> {
+  const { NoteTag, NoteType, NoteExecutionMode } = await import(
+    "@demox-labs/miden-sdk"
+  );
+
+  // Payload = offered_tag (high 8 bits) | requested_tag (low 8 bits)
+  const payload =
+    (assetTagOf(offeredFaucetId) << 8) | assetTagOf(requestedFaucetId);
+
+  if (noteType === NoteType.Public) {
+    return NoteTag.forPublicUseCase(
+      SWAP_USE_CASE_ID,
+      payload,
+      NoteExecutionMode.newLocal(),
+    );
+  }
+  return NoteTag.forLocalUseCase(SWAP_USE_CASE_ID, payload);
+}
+
+/**
+ * True if `tag` is a swap tag from `buildSwapTag`: the swap use case with
+ * local execution, public (0b10 prefix) or private (0b11 prefix)
+ */
+export function isSwapTag(tag: number): boolean {
+  const prefix = tag >>> 30;
+  const useCase = (tag >>> 16) & 0x3fff;
+  return (prefix === 0b10 || prefix === 0b11) && useCase === SWAP_USE_CASE_ID;
+}
@@ -0,0 +1,124 @@
+import { buildPswapMasm, type PswapMasmFeatures } from "@/lib/masm/pswap";
+import {
+  decodePswapInputs,
+  encodePswapInputs,
+  PSWAP_INPUT_COUNT,
+  PSWAP_INPUT_NAMES,
+  PSWAP_MIN_FILL_INPUT_NAMES,
+  PswapValidationError,
+  type PswapInputs,
+} from "./layout";
+
+/**
+ * Every PSWAP script version the UI understands. A note's script root says
+ * which version created it, so orders made by an older version stay
+ * discoverable, decodable, fillable and reclaimable after a new one ships.
+ *
+ * Changing a version's MASM changes its root and orphans its notes: ship the
+ * change as a new version appended to `PSWAP_SCRIPT_VERSIONS` instead.
+ */
+
+/**
+ * Note input layout of a script version
+ */
+export interface PswapInputSchema {
+  /** Number of note inputs the script asserts on */
+  inputCount: number;
+  /** Input names, indexed by input position (used for logging) */
+  inputNames: readonly string[];
+  encode: (inputs: PswapInputs) => bigint[];
+  decode: (values: readonly bigint[]) => PswapInputs;
+}
+
+export interface PswapScriptVersion {
+  /** Stable identifier, e.g. "v1" */
+  id: string;
+  label: string;
+  /** What the script adds to v1, e.g. whether fills can bound the payout */
+  features: PswapMasmFeatures;
+  /** MASM source, given the SDK's P2ID script root */
+  masm: (p2idScriptRoot: readonly bigint[]) => string;
+  inputs: PswapInputSchema;
+}
+
+/** Input 6 is reserved: v1 and v2 neither read nor carry a minimum fill */
+const V1_INPUTS: PswapInputSchema = {
+  inputCount: PSWAP_INPUT_COUNT,
+  inputNames: PSWAP_INPUT_NAMES,
+  encode: (inputs) => {
+    if (inputs.minFillAmount !== BigInt(0)) {
+      throw new PswapValidationError(
+        "minFillAmount",
+        "this script version does not enforce a minimum fill",
+      );
+    }
+    return encodePswapInputs(inputs);
+  },
+  decode: (values) => ({
+    ...decodePswapInputs(values),
+    minFillAmount: BigInt(0),
+  }),
+};
+
+const V3_INPUTS: PswapInputSchema = {
+  inputCount: PSWAP_INPUT_COUNT,
+  inputNames: PSWAP_MIN_FILL_INPUT_NAMES,
+  encode: encodePswapInputs,
+  decode: decodePswapInputs,
+};
+
+export const PSWAP_V1: PswapScriptVersion = {
+  id: "v1",
+  label: "PSWAP v1 (partial fills, expiration)",
+  features: {},
+  masm: (p2idScriptRoot) => buildPswapMasm(p2idScriptRoot),
+  inputs: V1_INPUTS,
+};
+
+/** v1 plus a min_tokens_a_out slippage bound in the fill note args */
+export const PSWAP_V2: PswapScriptVersion = {
+  id: "v2",
+  label: "PSWAP v2 (v1 + minimum receive)",
+  features: { minTokensOut: true },
+  masm: (p2idScriptRoot) =>
+    buildPswapMasm(p2idScriptRoot, PSWAP_V2.features),
+  inputs: V1_INPUTS,
+};
+
+/** v2 plus a maker minimum partial fill size in input 6 */
+export const PSWAP_V3: PswapScriptVersion = {
+  id: "v3",
+  label: "PSWAP v3 (v2 + minimum fill)",
+  features: { minTokensOut: true, minFill: true },
+  masm: (p2idScriptRoot) =>
+    buildPswapMasm(p2idScriptRoot, PSWAP_V3.features),
+  inputs: V3_INPUTS,
+};
+
+/**
+ * v3 with the expiration check the right way round: v1 to v3 treat an order
+ * as expired until its expiration block, see `expiresAtBlock`
+ */
+export const PSWAP_V4: PswapScriptVersion = {
+  id: "v4",
+  label: "PSWAP v4 (v3 + expiration fix)",
+  features: { minTokensOut: true, minFill: true, expiresAtBlock: true },
+  masm: (p2idScriptRoot) =>
+    buildPswapMasm(p2idScriptRoot, PSWAP_V4.features),
+  inputs: V3_INPUTS,
+};
+
+/** Oldest first; the last version is used for new orders */
+export const PSWAP_SCRIPT_VERSIONS: readonly PswapScriptVersion[] = [
+  PSWAP_V1,
+  PSWAP_V2,
+  PSWAP_V3,
+  PSWAP_V4,
+];
+
+export const CURRENT_PSWAP_VERSION =
+  PSWAP_SCRIPT_VERSIONS[PSWAP_SCRIPT_VERSIONS.length - 1];
+
+export function getPswapScriptVersion(id: string): PswapScriptVersion | null {
+  return PSWAP_SCRIPT_VERSIONS.find((version) => version.id === id) ?? null;
+}
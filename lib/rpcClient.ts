@@ -1,34 +1,186 @@
 import type { RpcClient, Endpoint, NoteId } from "@demox-labs/miden-sdk";
+import { getNetworkConfig } from "@/lib/network";
 type FetchedNote = Awaited<ReturnType<RpcClient["getNotesById"]>>[number];
 
 let rpcClient: RpcClient | null = null;
+let rpcUrl: string | null = null;
 
 export async function getRpcClient(): Promise<RpcClient> {
-  if (!rpcClient) {
+  const { rpcUrl: url } = getNetworkConfig();
+  if (!rpcClient || rpcUrl !== url) {
     const { RpcClient, Endpoint } = await import("@demox-labs/miden-sdk");
-    const endpoint = Endpoint.testnet();
+    const endpoint = new Endpoint(url);
     rpcClient = new RpcClient(endpoint);
+    rpcUrl = url;
   }
   return rpcClient;
 }
 
+/**
+ * Single-note lookup; network errors are logged and reported as `null`.
+ * Use `getRpcNotes` to tell "not found" from a failed request.
+ */
 export async function getRpcNote(
   noteIdAsHex: string,
 ): Promise<FetchedNote | null> {
-  const rpcClient = await getRpcClient();
-  const { NoteId } = await import("@demox-labs/miden-sdk");
-  const noteId = NoteId.fromHex(noteIdAsHex);
-  try {
-    const rpcNotes = await rpcClient.getNotesById([noteId]);
-    if (rpcNotes.length === 0) {
+  const [result] = await getRpcNotes([noteIdAsHex]);
+  switch (result.status) {
+    case "found":
+      return result.note;
+    case "not-found":
       console.log("Note not found:", noteIdAsHex);
       return null;
+    case "invalid":
+    case "error":
+      console.error("Error fetching note:", result.error);
+      return null;
+  }
+}
+
+export type RpcNoteResult =
+  | { status: "found"; noteId: string; note: FetchedNote }
+  | { status: "not-found"; noteId: string }
+  /** Not a note ID; never sent to the node */
+  | { status: "invalid"; noteId: string; error: unknown }
+  /** The request kept failing after all retries */
+  | { status: "error"; noteId: string; error: unknown };
+
+export interface GetRpcNotesOptions {
+  /** IDs per `getNotesById` call (default 100) */
+  batchSize?: number;
+  /** Retries of a batch the node or network failed (default 3) */
+  retries?: number;
+  /** Delay before the first retry, doubled after each (default 500ms) */
+  retryDelayMs?: number;
+  /** How long found notes are served from the cache (default 60s, 0 disables) */
+  cacheTtlMs?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_CACHE_TTL_MS = 60000;
+
+/** Found notes by `${rpcUrl} ${noteId}`; committed notes never change */
+const noteCache = new Map<string, { note: FetchedNote; expiresAt: number }>();
+/** Lookups in flight by the same key, shared by concurrent callers */
+const inflight = new Map<string, Promise<RpcNoteResult>>();
+
+async function fetchBatch(
+  noteIds: string[],
+  retries: number,
+  retryDelayMs: number,
+): Promise<Map<string, FetchedNote>> {
+  const { NoteId } = await import("@demox-labs/miden-sdk");
+  const rpcClient = await getRpcClient();
+
+  for (let attempt = 0; ; attempt++) {
+    // getNotesById takes ownership of the IDs, so each attempt needs its own;
+    // the IDs were validated, so only the request itself is retried
+    const ids = noteIds.map((id) => NoteId.fromHex(id));
+    try {
+      const fetched = await rpcClient.getNotesById(ids);
+      return new Map(
+        fetched.map((note) => [note.noteId.toString().toLowerCase(), note]),
+      );
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      console.log(
+        `getNotesById failed (attempt ${attempt + 1}/${retries + 1}):`,
+        error,
+      );
+      await new Promise((r) => setTimeout(r, retryDelayMs * 2 ** attempt));
     }
+  }
+}
 
-    const note = rpcNotes[0];
-    return note;
-  } catch (error) {
-    console.error("Error fetching note:", error);
-    return null;
+/**
+ * Parse each ID once up front: a malformed ID is reported on its own instead
+ * of failing (and retrying) the batch it would have been sent in
+ */
+async function validateNoteIds(
+  noteIds: Iterable<string>,
+): Promise<Map<string, unknown>> {
+  const { NoteId } = await import("@demox-labs/miden-sdk");
+  const invalid = new Map<string, unknown>();
+  for (const noteId of noteIds) {
+    try {
+      NoteId.fromHex(noteId).free();
+    } catch (error) {
+      invalid.set(noteId, error);
+    }
   }
+  return invalid;
+}
+
+/**
+ * Look up many notes on chain: batched into `getNotesById` calls, shared
+ * with identical lookups in flight, found notes cached for `cacheTtlMs`, and
+ * failed batches retried with backoff. Malformed IDs come back `invalid`
+ * without a request. Results are in the order of `noteIds`.
+ */
+export async function getRpcNotes(
+  noteIds: string[],
+  opts: GetRpcNotesOptions = {},
+): Promise<RpcNoteResult[]> {
+  const batchSize = opts.batchSize ?? DEFAULT_BATCH_SIZE;
+  const retries = opts.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = opts.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const cacheTtlMs = opts.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+
+  const { rpcUrl: url } = getNetworkConfig();
+  const keyOf = (noteId: string) => `${url} ${noteId}`;
+  const ids = noteIds.map((id) => id.toLowerCase());
+  const invalid = await validateNoteIds(new Set(ids));
+  const now = Date.now();
+
+  // Unique valid IDs that are neither cached nor already being fetched
+  const toFetch: string[] = [];
+  for (const noteId of new Set(ids)) {
+    if (invalid.has(noteId)) continue;
+    const key = keyOf(noteId);
+    const cached = noteCache.get(key);
+    if (cached && cached.expiresAt > now) continue;
+    noteCache.delete(key);
+    if (!inflight.has(key)) toFetch.push(noteId);
+  }
+
+  for (let i = 0; i < toFetch.length; i += batchSize) {
+    const batch = toFetch.slice(i, i + batchSize);
+    const request = fetchBatch(batch, retries, retryDelayMs);
+    for (const noteId of batch) {
+      const key = keyOf(noteId);
+      const result = request
+        .then((found): RpcNoteResult => {
+          const note = found.get(noteId);
+          if (!note) return { status: "not-found", noteId };
+          if (cacheTtlMs > 0) {
+            noteCache.set(key, { note, expiresAt: Date.now() + cacheTtlMs });
+          }
+          return { status: "found", noteId, note };
+        })
+        .catch((error): RpcNoteResult => ({ status: "error", noteId, error }))
+        .finally(() => inflight.delete(key));
+      inflight.set(key, result);
+    }
+  }
+
+  return Promise.all(
+    ids.map(async (noteId): Promise<RpcNoteResult> => {
+      if (invalid.has(noteId)) {
+        return { status: "invalid", noteId, error: invalid.get(noteId) };
+      }
+      const key = keyOf(noteId);
+      const cached = noteCache.get(key);
+      if (cached) return { status: "found", noteId, note: cached.note };
+      // Set above or by a concurrent caller; entries leave only once settled
+      const pending = inflight.get(key);
+      if (pending) return pending;
+      return {
+        status: "error",
+        noteId,
+        error: new Error(`No lookup in flight for note ${noteId}`),
+      };
+    }),
+  );
 }
@@ -0,0 +1,264 @@
+import type {
+  AccountId,
+  OutputNote,
+  TransactionProver,
+  TransactionRequest,
+  TransactionResult,
+  WebClient,
+} from "@demox-labs/miden-sdk";
+
+/**
+ * Shared execute -> prove -> submit -> apply pipeline with per-stage progress
+ * events, timings and failures classified by stage. `previewTransaction` runs
+ * only the execute stage so the outcome can be inspected before the slow
+ * proving step; `commitTransaction` finishes it.
+ */
+
+export type TransactionStage = "execute" | "prove" | "submit" | "apply";
+
+export const TRANSACTION_STAGES: TransactionStage[] = [
+  "execute",
+  "prove",
+  "submit",
+  "apply",
+];
+
+export type TransactionStageTimings = Partial<Record<TransactionStage, number>>;
+
+export type TransactionEvent =
+  | { type: "stage-start"; label: string; stage: TransactionStage }
+  | {
+      type: "stage-end";
+      label: string;
+      stage: TransactionStage;
+      durationMs: number;
+    }
+  | {
+      type: "stage-failed";
+      label: string;
+      stage: TransactionStage;
+      durationMs: number;
+      error: unknown;
+    };
+
+export interface RunTransactionOptions {
+  /** Shown in events and errors, e.g. "mint GOLD" */
+  label?: string;
+  onEvent?: (event: TransactionEvent) => void;
+  /** Defaults to the client's prover */
+  prover?: TransactionProver;
+}
+
+export interface TransactionOutcome {
+  transactionId: string;
+  /** Block height the node reported on submission */
+  submissionHeight: number;
+  outputNotes: OutputNote[];
+  outputNoteIds: string[];
+  /** `outputNotes` with their assets, tags, recipients and serials */
+  outputs: OutputNoteSummary[];
+  timings: TransactionStageTimings;
+  totalMs: number;
+}
+
+/**
+ * Which stage failed: "execute" covers script assertions (e.g. MASM error
+ * constants), "prove" covers prover failures, "submit" covers node rejection
+ * and network errors, "apply" covers local store updates after submission.
+ */
+export class TransactionStageError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly stage: TransactionStage,
+    public readonly cause: unknown,
+    public readonly timings: TransactionStageTimings,
+  ) {
+    super(`${label}: ${stage} failed: ${cause}`);
+    this.name = "TransactionStageError";
+  }
+}
+
+/**
+ * One-line description of a pipeline event, for page logs
+ */
+export function describeTransactionEvent(event: TransactionEvent): string {
+  switch (event.type) {
+    case "stage-start":
+      return `  [${event.label}] ${event.stage}...`;
+    case "stage-end":
+      return `  [${event.label}] ${event.stage} done (${event.durationMs}ms)`;
+    case "stage-failed":
+      return `  [${event.label}] ${event.stage} FAILED after ${event.durationMs}ms`;
+  }
+}
+
+/** A fungible asset amount; negative in a vault delta when it left the vault */
+export interface AssetAmount {
+  faucetId: string;
+  amount: bigint;
+}
+
+/** An output note of an executed transaction */
+export interface OutputNoteSummary {
+  noteId: string;
+  noteType: "public" | "private";
+  tag: number;
+  /** null when only the note header is known */
+  recipientDigest: string | null;
+  /** Serial number, null unless the full note is known */
+  serial: bigint[] | null;
+  assets: AssetAmount[];
+}
+
+export interface TransactionPreview {
+  label: string;
+  transactionId: string;
+  /** Executed transaction, passed on to `commitTransaction` */
+  result: TransactionResult;
+  outputNotes: OutputNoteSummary[];
+  /** Fungible balance changes of the executing account */
+  vaultDelta: AssetAmount[];
+  timings: TransactionStageTimings;
+}
+
+async function runStage<T>(
+  label: string,
+  stage: TransactionStage,
+  timings: TransactionStageTimings,
+  opts: RunTransactionOptions,
+  run: () => Promise<T>,
+): Promise<T> {
+  const emit = opts.onEvent ?? (() => {});
+  emit({ type: "stage-start", label, stage });
+  const started = performance.now();
+  try {
+    const result = await run();
+    timings[stage] = Math.round(performance.now() - started);
+    emit({ type: "stage-end", label, stage, durationMs: timings[stage] });
+    return result;
+  } catch (error) {
+    timings[stage] = Math.round(performance.now() - started);
+    emit({
+      type: "stage-failed",
+      label,
+      stage,
+      durationMs: timings[stage],
+      error,
+    });
+    throw new TransactionStageError(label, stage, error, { ...timings });
+  }
+}
+
+async function summarizeOutputNote(
+  note: OutputNote,
+): Promise<OutputNoteSummary> {
+  const { NoteType } = await import("@demox-labs/miden-sdk");
+
+  const metadata = note.metadata();
+  const summary: Omit<OutputNoteSummary, "serial"> = {
+    noteId: note.id().toString(),
+    noteType: metadata.noteType() === NoteType.Public ? "public" : "private",
+    tag: metadata.tag().asU32(),
+    recipientDigest: note.recipientDigest()?.toHex() ?? null,
+    assets: (note.assets()?.fungibleAssets() ?? []).map((asset) => ({
+      faucetId: asset.faucetId().toString(),
+      amount: asset.amount(),
+    })),
+  };
+  // intoFull() consumes the note, so it has to come last
+  const serial = note.intoFull()?.recipient().serialNum().toU64s();
+  return { ...summary, serial: serial ? Array.from(serial) : null };
+}
+
+/**
+ * Execute `request` for `accountId` without proving it, and describe what it
+ * would do: the output notes with their assets, tags and recipients, and the
+ * account's vault delta
+ */
+export async function previewTransaction(
+  client: WebClient,
+  accountId: AccountId | string,
+  request: TransactionRequest,
+  opts: RunTransactionOptions = {},
+): Promise<TransactionPreview> {
+  const { AccountId } = await import("@demox-labs/miden-sdk");
+
+  const label = opts.label ?? "transaction";
+  const timings: TransactionStageTimings = {};
+  const account =
+    typeof accountId === "string" ? AccountId.fromHex(accountId) : accountId;
+
+  const result = await runStage(label, "execute", timings, opts, () =>
+    client.executeTransaction(account, request),
+  );
+  const executed = result.executedTransaction();
+  return {
+    label,
+    transactionId: result.id().toHex(),
+    result,
+    outputNotes: await Promise.all(
+      executed.outputNotes().notes().map(summarizeOutputNote),
+    ),
+    vaultDelta: executed
+      .accountDelta()
+      .vault()
+      .fungible()
+      .assets()
+      .map((item) => ({
+        faucetId: item.faucetId.toString(),
+        amount: item.amount,
+      })),
+    timings,
+  };
+}
+
+/**
+ * Prove, submit and apply a previewed transaction
+ */
+export async function commitTransaction(
+  client: WebClient,
+  preview: TransactionPreview,
+  opts: RunTransactionOptions = {},
+): Promise<TransactionOutcome> {
+  const { label, result } = preview;
+  const timings: TransactionStageTimings = { ...preview.timings };
+  const started = performance.now();
+
+  const proven = await runStage(label, "prove", timings, opts, () =>
+    client.proveTransaction(result, opts.prover),
+  );
+  const submissionHeight = await runStage(label, "submit", timings, opts, () =>
+    client.submitProvenTransaction(proven, result),
+  );
+  await runStage(label, "apply", timings, opts, () =>
+    client.applyTransaction(result, submissionHeight),
+  );
+
+  // Summarize what the proven transaction carries, not what the preview
+  // executed; summarizing consumes the notes, so callers get their own copies
+  const outputNotes = proven.outputNotes().notes();
+  return {
+    transactionId: preview.transactionId,
+    submissionHeight,
+    outputNotes: proven.outputNotes().notes(),
+    outputNoteIds: outputNotes.map((note) => note.id().toString()),
+    outputs: await Promise.all(outputNotes.map(summarizeOutputNote)),
+    timings,
+    totalMs: Math.round(
+      (preview.timings.execute ?? 0) + performance.now() - started,
+    ),
+  };
+}
+
+/**
+ * Execute, prove, submit and apply `request` for `accountId`
+ */
+export async function runTransaction(
+  client: WebClient,
+  accountId: AccountId | string,
+  request: TransactionRequest,
+  opts: RunTransactionOptions = {},
+): Promise<TransactionOutcome> {
+  const preview = await previewTransaction(client, accountId, request, opts);
+  return commitTransaction(client, preview, opts);
+}
@@ -0,0 +1,166 @@
+import type { InputNoteRecord, WebClient } from "@demox-labs/miden-sdk";
+
+/**
+ * Commit-aware waiting: sync repeatedly until a transaction is committed or a
+ * note is available, instead of sleeping a fixed time.
+ */
+
+export interface WaitOptions {
+  /** Give up after this long (default 60s) */
+  timeoutMs?: number;
+  /** Delay before the second sync (default 1s) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between syncs (default 5s) */
+  maxDelayMs?: number;
+  /** Delay multiplier applied after each unsuccessful sync (default 1.5) */
+  backoff?: number;
+  /** Called after each unsuccessful sync */
+  onPoll?: (attempt: number, elapsedMs: number) => void;
+}
+
+export interface WaitForNoteOptions extends WaitOptions {
+  /** Wait until the note is consumable by this account (hex ID) */
+  consumableBy?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_BACKOFF = 1.5;
+
+export class WaitTimeoutError extends Error {
+  constructor(
+    public readonly target: string,
+    public readonly timeoutMs: number,
+    public readonly attempts: number,
+  ) {
+    super(`${target} did not appear within ${timeoutMs}ms (${attempts} syncs)`);
+    this.name = "WaitTimeoutError";
+  }
+}
+
+export class TransactionDiscardedError extends Error {
+  constructor(public readonly transactionId: string) {
+    super(`transaction ${transactionId} was discarded`);
+    this.name = "TransactionDiscardedError";
+  }
+}
+
+/**
+ * `syncState` until `check` returns a value, backing off between syncs
+ */
+async function pollUntil<T>(
+  client: WebClient,
+  target: string,
+  check: () => Promise<T | null>,
+  opts: WaitOptions,
+): Promise<T> {
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxDelayMs = opts.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const backoff = opts.backoff ?? DEFAULT_BACKOFF;
+  let delayMs = opts.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+
+  const started = Date.now();
+  for (let attempt = 1; ; attempt++) {
+    await client.syncState();
+    const result = await check();
+    if (result !== null) return result;
+
+    const elapsedMs = Date.now() - started;
+    opts.onPoll?.(attempt, elapsedMs);
+    if (elapsedMs >= timeoutMs) {
+      throw new WaitTimeoutError(target, timeoutMs, attempt);
+    }
+    await new Promise((r) =>
+      setTimeout(r, Math.min(delayMs, timeoutMs - elapsedMs)),
+    );
+    delayMs = Math.min(delayMs * backoff, maxDelayMs);
+  }
+}
+
+/**
+ * Wait until a transaction of an account in this client is committed and
+ * return its block number. Throws `TransactionDiscardedError` if the node
+ * dropped it.
+ */
+export async function waitForTransaction(
+  client: WebClient,
+  transactionId: string,
+  opts: WaitOptions = {},
+): Promise<number> {
+  const { TransactionFilter } = await import("@demox-labs/miden-sdk");
+
+  return pollUntil(
+    client,
+    `transaction ${transactionId}`,
+    async () => {
+      const record = (
+        await client.getTransactions(TransactionFilter.all())
+      ).find((tx) => tx.id().toHex() === transactionId);
+      const status = record?.transactionStatus();
+      if (status?.isDiscarded()) {
+        throw new TransactionDiscardedError(transactionId);
+      }
+      return status?.isCommitted() ? (status.getBlockNum() ?? null) : null;
+    },
+    opts,
+  );
+}
+
+/**
+ * Wait until a note is committed in this client's store, or consumable by
+ * `consumableBy` when given
+ */
+export async function waitForNote(
+  client: WebClient,
+  noteId: string,
+  opts: WaitForNoteOptions = {},
+): Promise<InputNoteRecord> {
+  const { AccountId } = await import("@demox-labs/miden-sdk");
+
+  const consumer = opts.consumableBy
+    ? AccountId.fromHex(opts.consumableBy)
+    : null;
+  const target = consumer
+    ? `note ${noteId} consumable by ${opts.consumableBy}`
+    : `note ${noteId}`;
+
+  return pollUntil(
+    client,
+    target,
+    async () => {
+      if (consumer) {
+        const consumable = await client.getConsumableNotes(consumer);
+        return (
+          consumable
+            .map((note) => note.inputNoteRecord())
+            .find((record) => record.id().toString() === noteId) ?? null
+        );
+      }
+      const record = await client.getInputNote(noteId);
+      return record && (record.inclusionProof() || record.isConsumed())
+        ? record
+        : null;
+    },
+    opts,
+  );
+}
+
+/**
+ * Wait until the client's sync height reaches `block` and return the height
+ */
+export async function waitForBlock(
+  client: WebClient,
+  block: number,
+  opts: WaitOptions = {},
+): Promise<number> {
+  return pollUntil(
+    client,
+    `block ${block}`,
+    async () => {
+      const height = await client.getSyncHeight();
+      return height >= block ? height : null;
+    },
+    opts,
+  );
+}
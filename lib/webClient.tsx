@@ -0,0 +1,321 @@
+"use client";
+
+/**
+ * Shared WebClient for every page: one client for the selected network, kept
+ * synced by a background `syncState` loop, plus hooks that re-render on new
+ * blocks. Each sync that reaches a new block also refreshes the stored
+ * orders (`refreshOrders`), on whichever page is open.
+ *
+ * Page actions that sync themselves (scripted flows, order refreshes) run
+ * through `withClient`, which pauses the loop until they finish so two syncs
+ * never overlap.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import type {
+  Account,
+  ConsumableNoteRecord,
+  WebClient,
+} from "@demox-labs/miden-sdk";
+import {
+  createWebClient,
+  getNetwork,
+  setNetwork,
+  type MidenNetwork,
+} from "@/lib/network";
+import { refreshOrders } from "@/lib/orderStore";
+
+/** Delay between background syncs */
+export const SYNC_INTERVAL_MS = 5000;
+
+export interface WebClientContextValue {
+  /** Selected network, null until read from localStorage after mount */
+  network: MidenNetwork | null;
+  /** Client of the selected network, created on first use */
+  getClient: () => Promise<WebClient>;
+  /** Run `task` with the background loop paused, then publish the new height */
+  withClient: <T>(task: (client: WebClient) => Promise<T>) => Promise<T>;
+  /** Latest synced block, updated by the loop and after `withClient` tasks */
+  syncHeight: number | null;
+  /** Block the stored orders were last refreshed at by the loop */
+  ordersHeight: number | null;
+  paused: boolean;
+  /** Pause the loop; pauses nest, each needs a matching `resume` */
+  pause: () => Promise<void>;
+  resume: () => void;
+  /** Sync immediately (shares an in-flight sync) */
+  syncNow: () => Promise<number>;
+  /** Error of the last background sync, cleared by the next success */
+  syncError: unknown;
+  /**
+   * Error of the last order refresh (or of the orders it could not trace),
+   * cleared by the next full success; stored orders may be stale while set
+   */
+  ordersError: unknown;
+  /** Switch networks; the previous network's client is terminated */
+  selectNetwork: (network: MidenNetwork) => void;
+}
+
+const WebClientContext = createContext<WebClientContextValue | null>(null);
+
+export function WebClientProvider({ children }: { children: ReactNode }) {
+  const [network, setSelectedNetwork] = useState<MidenNetwork | null>(null);
+  const [syncHeight, setSyncHeight] = useState<number | null>(null);
+  const [ordersHeight, setOrdersHeight] = useState<number | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [syncError, setSyncError] = useState<unknown>(null);
+  const [ordersError, setOrdersError] = useState<unknown>(null);
+
+  const clients = useRef(new Map<MidenNetwork, Promise<WebClient>>());
+  const inflightSync = useRef<Promise<number> | null>(null);
+  const pauseCount = useRef(0);
+  const ordersRefreshedAt = useRef<number | null>(null);
+
+  // Selection lives in localStorage, so read it after mount
+  useEffect(() => setSelectedNetwork(getNetwork()), []);
+
+  const getClient = useCallback(async () => {
+    const selected = network ?? getNetwork();
+    let client = clients.current.get(selected);
+    if (!client) {
+      client = createWebClient();
+      clients.current.set(selected, client);
+      // Allow a retry after a failed creation
+      client.catch(() => clients.current.delete(selected));
+    }
+    return client;
+  }, [network]);
+
+  const syncNow = useCallback(async () => {
+    inflightSync.current ??= (async () => {
+      try {
+        const client = await getClient();
+        await client.syncState();
+        const height = await client.getSyncHeight();
+        // Record fills and reclaims the new blocks revealed; part of the
+        // in-flight sync, so `withClient` tasks wait for it too
+        if (height !== ordersRefreshedAt.current) {
+          try {
+            const { failed } = await refreshOrders(client);
+            setOrdersHeight(height);
+            if (failed.length > 0) {
+              // Leave the height unrefreshed so the next sync retries them
+              const [{ originNoteId, error }] = failed;
+              throw new Error(
+                `${failed.length} order(s) failed to refresh, e.g. ${originNoteId}: ${error}`,
+              );
+            }
+            ordersRefreshedAt.current = height;
+            setOrdersError(null);
+          } catch (error) {
+            setOrdersError(error);
+          }
+        }
+        setSyncHeight(height);
+        setSyncError(null);
+        return height;
+      } finally {
+        inflightSync.current = null;
+      }
+    })();
+    return inflightSync.current;
+  }, [getClient]);
+
+  const pause = useCallback(async () => {
+    pauseCount.current += 1;
+    setPaused(true);
+    // Let a background sync that already started finish first
+    await inflightSync.current?.catch(() => {});
+  }, []);
+
+  const resume = useCallback(() => {
+    pauseCount.current = Math.max(0, pauseCount.current - 1);
+    setPaused(pauseCount.current > 0);
+  }, []);
+
+  const withClient = useCallback(
+    async <T,>(task: (client: WebClient) => Promise<T>): Promise<T> => {
+      await pause();
+      try {
+        const client = await getClient();
+        const result = await task(client);
+        setSyncHeight(await client.getSyncHeight());
+        return result;
+      } finally {
+        resume();
+      }
+    },
+    [getClient, pause, resume],
+  );
+
+  const selectNetwork = useCallback(
+    (next: MidenNetwork) => {
+      setNetwork(next);
+      // All networks share one IndexedDB store, swapped on client creation:
+      // a client of another network must not keep writing to it
+      for (const [id, client] of clients.current) {
+        if (id === next) continue;
+        client.then((c) => c.terminate()).catch(() => {});
+        clients.current.delete(id);
+      }
+      setSyncHeight(null);
+      setOrdersHeight(null);
+      setSyncError(null);
+      setOrdersError(null);
+      ordersRefreshedAt.current = null;
+      setSelectedNetwork(next);
+    },
+    [],
+  );
+
+  // Background sync loop
+  useEffect(() => {
+    if (!network) return;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const tick = async () => {
+      if (pauseCount.current === 0) {
+        try {
+          await syncNow();
+        } catch (error) {
+          setSyncError(error);
+        }
+      }
+      if (!stopped) timer = setTimeout(tick, SYNC_INTERVAL_MS);
+    };
+    tick();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [network, syncNow]);
+
+  const value = useMemo<WebClientContextValue>(
+    () => ({
+      network,
+      getClient,
+      withClient,
+      syncHeight,
+      ordersHeight,
+      paused,
+      pause,
+      resume,
+      syncNow,
+      syncError,
+      ordersError,
+      selectNetwork,
+    }),
+    [
+      network,
+      getClient,
+      withClient,
+      syncHeight,
+      ordersHeight,
+      paused,
+      pause,
+      resume,
+      syncNow,
+      syncError,
+      ordersError,
+      selectNetwork,
+    ],
+  );
+
+  return (
+    <WebClientContext.Provider value={value}>
+      {children}
+    </WebClientContext.Provider>
+  );
+}
+
+export function useWebClient(): WebClientContextValue {
+  const context = useContext(WebClientContext);
+  if (!context) {
+    throw new Error("useWebClient must be used inside a WebClientProvider");
+  }
+  return context;
+}
+
+export function useSyncHeight(): number | null {
+  return useWebClient().syncHeight;
+}
+
+export interface SyncedQuery<T> {
+  data: T | null;
+  error: unknown;
+  loading: boolean;
+}
+
+/**
+ * Re-run `load` whenever a new block is synced or `key` changes. Pass a null
+ * key to skip loading.
+ */
+function useSyncedQuery<T>(
+  key: string | null,
+  load: (client: WebClient) => Promise<T>,
+): SyncedQuery<T> {
+  const { getClient, syncHeight } = useWebClient();
+  const [query, setQuery] = useState<SyncedQuery<T>>({
+    data: null,
+    error: null,
+    loading: false,
+  });
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  useEffect(() => {
+    if (key === null || syncHeight === null) {
+      setQuery({ data: null, error: null, loading: false });
+      return;
+    }
+    let stale = false;
+    setQuery((prev) => ({ ...prev, loading: true }));
+    getClient()
+      .then((client) => loadRef.current(client))
+      .then(
+        (data) => !stale && setQuery({ data, error: null, loading: false }),
+        (error) =>
+          !stale && setQuery((prev) => ({ ...prev, error, loading: false })),
+      );
+    return () => {
+      stale = true;
+    };
+  }, [key, syncHeight, getClient]);
+
+  return query;
+}
+
+/**
+ * Account state of `accountId` (hex) in the shared client, refreshed per block
+ */
+export function useAccount(accountId: string | null): SyncedQuery<Account> {
+  return useSyncedQuery(accountId, async (client) => {
+    const { AccountId } = await import("@demox-labs/miden-sdk");
+    const account = await client.getAccount(AccountId.fromHex(accountId!));
+    if (!account) throw new Error(`account ${accountId} not in this client`);
+    return account;
+  });
+}
+
+/**
+ * Notes `accountId` (hex) can consume, refreshed per block
+ */
+export function useConsumableNotes(
+  accountId: string | null,
+): SyncedQuery<ConsumableNoteRecord[]> {
+  return useSyncedQuery(accountId, async (client) => {
+    const { AccountId } = await import("@demox-labs/miden-sdk");
+    return client.getConsumableNotes(AccountId.fromHex(accountId!));
+  });
+}